@@ -1,21 +1,123 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { GameCanvas, GameCanvasHandle } from './components/GameCanvas';
-import { generateBriefing, generateTacticalUpdate, generateDebrief } from './services/geminiService';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { GameCanvas, GameCanvasHandle, PlaybackSettings } from './components/GameCanvas';
+import { Leaderboard } from './components/Leaderboard';
+import { AfterActionReport } from './components/AfterActionReport';
+import { ControlsSettings } from './components/ControlsSettings';
+import { AudioMixer } from './components/AudioMixer';
+import { GazeCalibration } from './components/GazeCalibration';
+import { CommandContext, COMMAND_PROVIDERS, CommandProviderId, createCommandProvider } from './services/commandProvider';
+import { CommentaryScheduler } from './services/commentaryScheduler';
+import { randomSeed, parseSeed } from './game/rng';
+import { Replay, parseReplay, serializeReplay, replayFileName } from './game/replay';
+import { runBenchmark } from './game/benchmark';
+import { UpgradeType } from './game/simulation';
+import { MAX_WEAPON_LEVEL } from './game/weapons';
+import { ArmoryCategory, ARMORY_CATALOG, isSecondaryItem } from './game/armory';
+import { EventBus, GameEvent } from './game/events';
+import { CombatLedger } from './game/analytics';
+import { GamepadAction, GamepadInput } from './game/gamepad';
+import { TouchInput } from './game/touch';
+import { GazeTracker, GazeFilterId, GAZE_FILTERS, WebGazerSource } from './game/gaze';
+import { ControlAction, KeyBindings, actionFor, keyLabel, describeBindings } from './game/controls';
+import { AudioEngine, MixerSettings } from './game/audio';
+import { WAVE_SCRIPTS } from './game/waves';
+import { PilotProfile, loadProfile, saveProfile, recordRun, formatCallsign, parseProfile, serializeProfile, profileFileName } from './game/profile';
+import { SavedRun, loadSavedRun } from './game/savegame';
+import { PerformanceReport, GRADE_CATEGORIES, evaluateRun } from './game/rank';
+import { LeaderboardEntry, loadLeaderboard, saveLeaderboard, createEntry, mergeEntries, parseLeaderboard, serializeLeaderboard, leaderboardFileName } from './game/leaderboard';
 import { GameState, GameStats, MissionLog } from './types';
-import { Monitor, Shield, Target, Award, Play, RotateCcw, AlertTriangle, ShoppingCart, Zap, Plus, Hammer, Pause, Eye } from 'lucide-react';
+import { Monitor, Shield, Target, Award, Play, RotateCcw, AlertTriangle, ShoppingCart, Zap, Plus, Hammer, Pause, Eye, Hash, Download, Upload, Film, FastForward, X, Gauge, Layers, Crosshair, Magnet, User, Trophy, Radio, BarChart3, Keyboard, Hand, ScanFace, Waves } from 'lucide-react';
+
+const ARMORY_CATEGORIES: ArmoryCategory[] = ['PRIMARY', 'DEFENSE', 'SYSTEMS', 'SECONDARY'];
+
+// Shop section colours and icons
+const CATEGORY_STYLE: Record<ArmoryCategory, { icon: typeof Zap; text: string; price: string; hover: string }> = {
+  PRIMARY: { icon: Zap, text: 'text-yellow-400', price: 'text-yellow-500', hover: 'hover:border-yellow-500' },
+  DEFENSE: { icon: Hammer, text: 'text-green-400', price: 'text-green-500', hover: 'hover:border-green-500' },
+  SYSTEMS: { icon: Magnet, text: 'text-cyan-400', price: 'text-cyan-500', hover: 'hover:border-cyan-500' },
+  SECONDARY: { icon: Crosshair, text: 'text-orange-400', price: 'text-orange-500', hover: 'hover:border-orange-500' }
+};
+
+// Comms log line for an event, if the pilot should see one
+const systemMessage = (event: GameEvent): { message: string, priority: MissionLog['priority'] } | null => {
+  const high = (message: string) => ({ message, priority: 'high' as const });
+  const normal = (message: string) => ({ message, priority: 'normal' as const });
+
+  switch (event.type) {
+    case 'ENEMY_SPAWNED':
+      if (event.alert === 'ENEMY_SPAWN_GUARDIAN') return high('WARNING: Heavily Armored Hostile Detected.');
+      if (event.alert === 'ENEMY_SPAWN_MINELAYER') return normal('CAUTION: Area Denial Units in sector.');
+      return null;
+
+    // Boss encounter
+    case 'BOSS_WARNING':
+      return high('WARNING: Capital-class signature inbound.');
+    case 'BOSS_PHASE':
+      if (event.cue === 'BOSS_PHASE_ASSAULT') return high('Boss engaged. Shield generators protecting its core.');
+      if (event.cue === 'BOSS_PHASE_BARRAGE') return high('Boss hull breached. Homing barrage detected.');
+      if (event.cue === 'BOSS_PHASE_LAST_STAND') return high('Boss reactor critical. Radial fire incoming.');
+      return high('Boss attack pattern shifting.');
+    case 'BOSS_PART_DESTROYED':
+      return normal('Boss subsystem destroyed.');
+    case 'BOSS_CORE_EXPOSED':
+      return high('Shield generators down. Core exposed!');
+    case 'BOSS_DEFEATED':
+      return high('Capital ship destroyed.');
+
+    case 'BOMB_DETONATED':
+      return normal('Nova bomb detonated. Sector swept.');
+    case 'SECONDARY_EQUIPPED':
+      return normal('Secondary weapon armed.');
+    case 'PURCHASE_MADE':
+      if (event.item === 'WEAPON') return high('Weapon systems upgraded.');
+      if (event.item === 'REPAIR') return normal('Hull repair completed.');
+      return isSecondaryItem(event.item) ? null : normal('Ship systems upgraded.');
+    case 'POWERUP_COLLECTED':
+      if (event.powerup === 'WEAPON' && !event.bonus) return high('Weapon systems upgraded.');
+      if (event.powerup === 'SHIELD') return normal('Hull repair completed.');
+      return null;
+    default:
+      return null;
+  }
+};
 
 export default function App() {
   const [gameState, setGameState] = useState<GameState>(GameState.MENU);
   const [stats, setStats] = useState<GameStats>({
-    score: 0, credits: 0, wave: 1, enemiesDestroyed: 0, accuracy: 0, shotsFired: 0, shotsHit: 0, timeSurvived: 0, weaponLevel: 1
+    score: 0, credits: 0, wave: 1, waveName: '1', enemiesDestroyed: 0, accuracy: 0, shotsFired: 0, shotsHit: 0, timeSurvived: 0, weaponLevel: 1, creditsSpent: 0, events: {}, boss: null, secondary: null
   });
   const [logs, setLogs] = useState<MissionLog[]>([]);
-  const [debrief, setDebrief] = useState<{rank: string, message: string} | null>(null);
+  const [debrief, setDebrief] = useState<{ report: PerformanceReport, message: string | null } | null>(null);
+  const [ledger, setLedger] = useState<CombatLedger | null>(null);
+  const [showReport, setShowReport] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
-  const [eyeTrackingEnabled, setEyeTrackingEnabled] = useState(false);
+  const [profile, setProfile] = useState<PilotProfile>(() => loadProfile());
+  const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>(() => loadLeaderboard());
+  const [savedRun, setSavedRun] = useState<SavedRun | null>(null);
+  const [eyeTrackingEnabled, setEyeTrackingEnabled] = useState(profile.settings.eyeTracking);
+  const [seed, setSeed] = useState<number>(() => randomSeed());
+  const [seedInput, setSeedInput] = useState('');
+  const [scriptId, setScriptId] = useState(profile.settings.script);
+  const [replay, setReplay] = useState<Replay | null>(null);
+  const [playback, setPlayback] = useState<PlaybackSettings>({ paused: false, speed: 1 });
+  const [replayProgress, setReplayProgress] = useState({ tick: 0, total: 0 });
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const gameCanvasRef = useRef<GameCanvasHandle>(null);
+  const replayInputRef = useRef<HTMLInputElement>(null);
+  const profileInputRef = useRef<HTMLInputElement>(null);
+
+  // Rebuilt only when the pilot switches provider in settings
+  const commander = useMemo(() => createCommandProvider(profile.settings.commentary), [profile.settings.commentary]);
+
+  const bindings = profile.settings.bindings;
+
+  // First key bound to an action, for button captions
+  const shortcut = (action: ControlAction) => bindings[action].length ? ` [${keyLabel(bindings[action][0])}]` : '';
+
+  const commandContext = (): CommandContext => ({
+    callsign: profile.callsign, mission: scriptId, score: stats.score, wave: stats.wave
+  });
 
   const addLog = (sender: MissionLog['sender'], message: string, priority: MissionLog['priority'] = 'normal') => {
     setLogs(prev => [...prev.slice(-4), { // Keep last 5 logs
@@ -27,41 +129,95 @@ export default function App() {
     }]);
   };
 
-  const handleGameEvent = async (event: string) => {
-    // Priority Events
-    if (event === 'ENEMY_SPAWN_GUARDIAN') {
-         addLog('SYSTEM', 'WARNING: Heavily Armored Hostile Detected.', 'high');
-         const msg = await generateTacticalUpdate('Guardian Class Enemy detected', stats.score);
-         addLog('AI', msg, 'high');
-    }
-    else if (event === 'ENEMY_SPAWN_MINELAYER') {
-         addLog('SYSTEM', 'CAUTION: Area Denial Units in sector.', 'normal');
-    }
+  // Latest context for requests the scheduler sends later
+  const contextRef = useRef<CommandContext>(commandContext());
+  contextRef.current = commandContext();
 
-    // Throttled / Probability Events
-    else if (event === 'HULL_DAMAGE' && Math.random() > 0.7) {
-        const msg = await generateTacticalUpdate('Hull Critical', stats.score);
-        addLog('AI', msg, 'high');
-    }
-    else if (event === 'WAVE_CLEARED') {
-        const msg = await generateTacticalUpdate('Wave Cleared', stats.score);
-        addLog('AI', msg, 'normal');
-    }
-    else if (event === 'WEAPON_UPGRADED') {
-        addLog('SYSTEM', 'Weapon systems upgraded.', 'high');
-    }
-    else if (event === 'REPAIR_COMPLETE') {
-        addLog('SYSTEM', 'Hull repair completed.', 'normal');
-    }
-  };
+  const commentary = useMemo(() => new CommentaryScheduler(commander, {
+    getContext: () => contextRef.current,
+    onMessage: (message, priority) => addLog('AI', message, priority)
+  }), [commander]);
+
+  useEffect(() => () => commentary.cancel(), [commentary]);
+
+  // Simulation events fan out to independent listeners
+  const gameEvents = useMemo(() => new EventBus(), []);
+
+  // Command decides separately whether, and when, to comment
+  useEffect(() => gameEvents.subscribe(event => commentary.notify(event)), [gameEvents, commentary]);
+
+  useEffect(() => gameEvents.subscribe(event => {
+    const line = systemMessage(event);
+    if (line) addLog('SYSTEM', line.message, line.priority);
+  }), [gameEvents]);
+
+  const gamepad = useMemo(() => new GamepadInput(), []);
+
+  useEffect(() => {
+    const unsubscribe = gamepad.onConnectionChange(name => {
+        addLog('SYSTEM', name ? `Controller linked: ${name}` : 'Controller disconnected.', 'normal');
+    });
+    const detach = gamepad.attach();
+    return () => { detach(); unsubscribe(); };
+  }, [gamepad]);
+
+  const touch = useMemo(() => new TouchInput(), []);
+
+  useEffect(() => {
+    touch.steering = profile.settings.touchSteering;
+  }, [touch, profile.settings.touchSteering]);
+
+  const gaze = useMemo(() => new GazeTracker(new WebGazerSource(), profile.settings.gazeFilter), []);
+  const [gazeLost, setGazeLost] = useState(false);
+
+  useEffect(() => {
+    gaze.setFilter(profile.settings.gazeFilter);
+  }, [gaze, profile.settings.gazeFilter]);
+
+  useEffect(() => {
+    if (!eyeTrackingEnabled) return;
+    gaze.start();
+    return () => gaze.stop();
+  }, [gaze, eyeTrackingEnabled]);
+
+  // Losing the pilot's eyes mid-run pauses, since the ship can no longer be steered
+  useEffect(() => gaze.onStatusChange(status => {
+    if (status !== 'LOST' || gameState !== GameState.PLAYING) return;
+    setGazeLost(true);
+    setGameState(GameState.PAUSED);
+    addLog('SYSTEM', 'Gaze lost. Flight suspended.', 'high');
+  }), [gaze, gameState]);
+
+  useEffect(() => {
+    if (gameState !== GameState.PAUSED) setGazeLost(false);
+  }, [gameState]);
+
+  const audio = useMemo(() => new AudioEngine(), []);
+
+  useEffect(() => audio.attach(), [audio]);
+
+  useEffect(() => {
+    audio.setMixer(profile.settings.audio);
+  }, [audio, profile.settings.audio]);
+
+  useEffect(() => gameEvents.subscribe(audio.play), [gameEvents, audio]);
+
+  // Heavier hits shake harder; the killing blow longest
+  useEffect(() => gameEvents.on('DAMAGE_TAKEN', event => {
+    gamepad.rumble(Math.min(1, 0.3 + event.amount / 60), event.hull > 0 ? 150 : 600);
+  }), [gameEvents, gamepad]);
 
   const startGame = async () => {
+    // A typed seed replays that exact run; otherwise roll a fresh one
+    const runSeed = parseSeed(seedInput) ?? randomSeed();
+    setSeed(runSeed);
     setIsLoading(true);
+    commentary.cancel();
     setLogs([]);
     setDebrief(null);
     try {
       // Pre-fetch briefing
-      const briefing = await generateBriefing();
+      const briefing = await commander.generateBriefing(commandContext());
       addLog('COMMAND', briefing, 'high');
     } catch (e) {
       addLog('SYSTEM', 'Link established. Good hunting.', 'normal');
@@ -70,19 +226,106 @@ export default function App() {
     setGameState(GameState.PLAYING);
   };
 
+  const resumeMission = () => {
+    if (!savedRun || !gameCanvasRef.current) return;
+    const { snapshot } = savedRun;
+    gameCanvasRef.current.resumeRun(savedRun);
+    setSeed(snapshot.seed);
+    setScriptId(snapshot.script);
+    setStats({...snapshot.stats});
+    commentary.cancel();
+    setLogs([]);
+    setDebrief(null);
+    addLog('SYSTEM', `Mission restored at wave ${snapshot.stats.waveName}. Resume when ready.`, 'normal');
+    setGameState(GameState.PAUSED);
+  };
+
+  const cycleCommentary = () => {
+    const ids = Object.keys(COMMAND_PROVIDERS) as CommandProviderId[];
+    const commentary = ids[(ids.indexOf(profile.settings.commentary) + 1) % ids.length];
+    setProfile(prev => ({ ...prev, settings: { ...prev.settings, commentary } }));
+  };
+
+  // Switching eye tracking on goes straight to calibration
+  const toggleEyeTracking = () => {
+    setEyeTrackingEnabled(!eyeTrackingEnabled);
+    if (!eyeTrackingEnabled) setGameState(GameState.CALIBRATION);
+  };
+
+  const cycleGazeFilter = () => {
+    const ids = Object.keys(GAZE_FILTERS) as GazeFilterId[];
+    const gazeFilter = ids[(ids.indexOf(profile.settings.gazeFilter) + 1) % ids.length];
+    setProfile(prev => ({ ...prev, settings: { ...prev.settings, gazeFilter } }));
+  };
+
+  const toggleTouchSteering = () => {
+    setProfile(prev => ({ ...prev, settings: { ...prev.settings, touchSteering: prev.settings.touchSteering === 'DRAG' ? 'STICK' : 'DRAG' } }));
+  };
+
+  const updateBindings = (bindings: KeyBindings) => {
+    setProfile(prev => ({ ...prev, settings: { ...prev.settings, bindings } }));
+  };
+
+  const updateMixer = (audio: MixerSettings) => {
+    setProfile(prev => ({ ...prev, settings: { ...prev.settings, audio } }));
+  };
+
+  const toggleMute = () => {
+    const muted = !profile.settings.audio.muted;
+    updateMixer({ ...profile.settings.audio, muted });
+    addLog('SYSTEM', muted ? 'Audio muted.' : 'Audio restored.', 'normal');
+  };
+
+  const cycleScript = () => {
+    const ids = Object.keys(WAVE_SCRIPTS);
+    setScriptId(ids[(ids.indexOf(scriptId) + 1) % ids.length]);
+  };
+
   const handleGameOver = async (finalStats: GameStats) => {
     setGameState(GameState.GAME_OVER);
+    commentary.cancel(); // Nothing left to comment on
+
+    // Rank is settled locally; Command only adds the message
+    const report = evaluateRun(finalStats);
+    setDebrief({ report, message: null });
+    setLedger(gameCanvasRef.current?.getLedger() || null);
+    setShowReport(false);
+    const run = { seed, script: scriptId, rank: report.rank, stats: finalStats, finishedAt: Date.now() };
+    const unlocked = gameCanvasRef.current?.getUnlocks() || [];
+    setProfile(prev => recordRun(prev, run, unlocked));
+    setLeaderboard(prev => mergeEntries(prev, [createEntry(profile.callsign, run)]));
+
     setIsLoading(true);
+    let message = 'Connection lost. RTB.';
     try {
-        const result = await generateDebrief(finalStats);
-        setDebrief(result);
-        addLog('COMMAND', `Debrief: ${result.message}`, 'normal');
+        message = await commander.generateDebrief(finalStats, report, { ...commandContext(), score: finalStats.score, wave: finalStats.wave });
+        addLog('COMMAND', `Debrief: ${message}`, 'normal');
     } catch (e) {
-        setDebrief({ rank: 'PILOT', message: 'Connection lost. RTB.'});
+        console.error("Debrief failed", e);
     }
+    setDebrief({ report, message });
     setIsLoading(false);
   };
 
+  // Steps focus through the topmost overlay's buttons in page order; A clicks the focused one
+  const navigateOverlay = (action: GamepadAction) => {
+    const overlays = document.querySelectorAll('[data-gamepad-nav]');
+    const overlay = overlays[overlays.length - 1];
+    if (!overlay) return;
+    const buttons = Array.from(overlay.querySelectorAll<HTMLButtonElement>('button:not(:disabled)'));
+    if (!buttons.length) return;
+
+    const current = buttons.indexOf(document.activeElement as HTMLButtonElement);
+    if (action === 'CONFIRM') {
+        if (current >= 0) buttons[current].click();
+        else buttons[0].focus();
+    } else if (action === 'UP' || action === 'LEFT') {
+        buttons[current <= 0 ? buttons.length - 1 : current - 1].focus();
+    } else if (action === 'DOWN' || action === 'RIGHT') {
+        buttons[(current + 1) % buttons.length].focus();
+    }
+  };
+
   const toggleShop = () => {
     if (gameState === GameState.PLAYING) {
         setGameState(GameState.SHOP);
@@ -96,36 +339,173 @@ export default function App() {
           setGameState(GameState.PAUSED);
       } else if (gameState === GameState.PAUSED) {
           setGameState(GameState.PLAYING);
+      } else if (gameState === GameState.REPLAY) {
+          setPlayback(prev => ({ ...prev, paused: !prev.paused }));
       }
   };
 
-  const purchaseItem = (type: 'WEAPON' | 'REPAIR') => {
+  const downloadReplay = () => {
+    if (!gameCanvasRef.current) return;
+    const recorded = gameCanvasRef.current.getReplay();
+    const url = URL.createObjectURL(new Blob([serializeReplay(recorded)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = replayFileName(recorded);
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const loadReplay = async (file: File) => {
+    try {
+      const loaded = parseReplay(await file.text());
+      setReplay(loaded);
+      setSeed(loaded.seed);
+      setPlayback({ paused: false, speed: 1 });
+      setLogs([]);
+      addLog('SYSTEM', `Replay loaded. Seed ${loaded.seed}.`, 'normal');
+      setGameState(GameState.REPLAY);
+    } catch (e) {
+      console.error("Replay load failed", e);
+      addLog('SYSTEM', `Replay rejected: ${(e as Error).message}`, 'high');
+    }
+  };
+
+  const startBenchmark = () => {
+    setIsLoading(true);
+    addLog('SYSTEM', 'Stress test running...', 'low');
+    // Let the overlay repaint before the synchronous run blocks the thread
+    setTimeout(() => {
+      const result = runBenchmark();
+      addLog('SYSTEM', `Stress test: ${result.enemies} hostiles / ${result.projectiles} rounds. Step avg ${result.avgStepMs.toFixed(2)}ms, p95 ${result.p95StepMs.toFixed(2)}ms, max ${result.maxStepMs.toFixed(2)}ms.`, 'normal');
+      setIsLoading(false);
+    }, 50);
+  };
+
+  const exportProfile = () => {
+    const url = URL.createObjectURL(new Blob([serializeProfile(profile)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = profileFileName(profile);
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importProfile = async (file: File) => {
+    try {
+      const imported = parseProfile(await file.text());
+      setProfile(imported);
+      setEyeTrackingEnabled(imported.settings.eyeTracking);
+      setScriptId(imported.settings.script);
+      addLog('SYSTEM', `Pilot ${imported.callsign} loaded.`, 'normal');
+    } catch (e) {
+      console.error("Profile import failed", e);
+      addLog('SYSTEM', `Profile rejected: ${(e as Error).message}`, 'high');
+    }
+  };
+
+  const exportLeaderboard = () => {
+    const url = URL.createObjectURL(new Blob([serializeLeaderboard(leaderboard)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = leaderboardFileName();
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importLeaderboard = async (file: File) => {
+    try {
+      const incoming = parseLeaderboard(await file.text());
+      setLeaderboard(prev => mergeEntries(prev, incoming));
+      addLog('SYSTEM', `Leaderboard merged: ${incoming.length} sorties received.`, 'normal');
+    } catch (e) {
+      console.error("Leaderboard import failed", e);
+      addLog('SYSTEM', `Leaderboard rejected: ${(e as Error).message}`, 'high');
+    }
+  };
+
+  const exitReplay = () => {
+    setReplay(null);
+    setGameState(GameState.MENU);
+  };
+
+  const purchaseItem = (type: UpgradeType) => {
     if (gameCanvasRef.current) {
         const success = gameCanvasRef.current.purchaseUpgrade(type);
         if (!success) {
-            addLog('SYSTEM', 'Insufficient credits.', 'low');
+            addLog('SYSTEM', 'Purchase denied.', 'low');
         }
     }
   };
 
-  // Keyboard shortcut for Shop and Pause
+  // Re-read after every stats sync; the simulation is frozen while the armory is open
+  const armoryOffers = gameState === GameState.SHOP && gameCanvasRef.current ? gameCanvasRef.current.getArmoryOffers() : [];
+
+  // Keyboard shortcut for Shop, Pause and Mute
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-        if (e.code === 'KeyB') {
+        const action = actionFor(bindings, e.code);
+        if (action === 'ARMORY') {
             toggleShop();
         }
-        if (e.code === 'KeyP') {
+        if (action === 'PAUSE') {
             togglePause();
         }
+        if (action === 'MUTE') {
+            toggleMute();
+        }
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [gameState]);
+  }, [gameState, bindings, profile.settings.audio]);
+
+  // Controller buttons: Y and Start mirror B and P, B backs out of overlays, the rest navigate them
+  useEffect(() => gamepad.onPress(action => {
+    if (action === 'ARMORY') toggleShop();
+    else if (action === 'PAUSE') togglePause();
+    else if (action === 'BACK') {
+        if (gameState === GameState.SHOP) toggleShop();
+        else if (gameState === GameState.PAUSED) togglePause();
+        else if (gameState === GameState.LEADERBOARD || gameState === GameState.CONTROLS || gameState === GameState.CALIBRATION) setGameState(GameState.MENU);
+        else if (gameState === GameState.GAME_OVER) setShowReport(false);
+    }
+    else if (gameState !== GameState.PLAYING && gameState !== GameState.REPLAY) navigateOverlay(action);
+  }), [gamepad, gameState]);
+
+  // On-screen buttons; SECONDARY is read by the canvas every tick
+  useEffect(() => touch.onPress(action => {
+    if (action === 'ARMORY') toggleShop();
+    else if (action === 'PAUSE') togglePause();
+  }), [touch, gameState]);
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [logs]);
 
+  // Offer the saved run whenever the menu opens
+  useEffect(() => {
+    if (gameState === GameState.MENU) setSavedRun(loadSavedRun());
+  }, [gameState]);
+
+  // The canvas flips to GAME_OVER and pushes the final stats in the same update
+  useEffect(() => {
+    if (gameState === GameState.GAME_OVER) handleGameOver(stats);
+  }, [gameState]);
+
+  // Persist the profile, keeping menu choices as settings
+  useEffect(() => {
+    setProfile(prev => prev.settings.eyeTracking === eyeTrackingEnabled && prev.settings.script === scriptId
+      ? prev
+      : { ...prev, settings: { ...prev.settings, eyeTracking: eyeTrackingEnabled, script: scriptId } });
+  }, [eyeTrackingEnabled, scriptId]);
+
+  useEffect(() => {
+    saveProfile(profile);
+  }, [profile]);
+
+  useEffect(() => {
+    saveLeaderboard(leaderboard);
+  }, [leaderboard]);
+
   return (
     <div className="min-h-screen bg-black text-white overflow-hidden flex flex-col items-center justify-center scanlines font-display">
       
@@ -139,7 +519,8 @@ export default function App() {
                 <h1 className="text-xl font-bold tracking-wider text-cyan-100">ASTROWING <span className="text-cyan-500">ACE</span></h1>
                 <div className="flex gap-4 text-xs text-cyan-400/70 font-mono">
                     <span>SYS: ONLINE</span>
-                    <span>NET: SECURE</span>
+                    <span>PILOT: {profile.callsign}</span>
+                    <span>SEED: {seed}</span>
                 </div>
             </div>
          </div>
@@ -155,7 +536,7 @@ export default function App() {
              </div>
              <div className="flex flex-col items-center">
                  <span className="text-xs text-slate-500">WAVE</span>
-                 <span className="text-orange-400">{stats.wave}</span>
+                 <span className="text-orange-400">{stats.waveName}</span>
              </div>
          </div>
       </div>
@@ -172,6 +553,10 @@ export default function App() {
                          <span>Weapon Lvl</span>
                          <span className="text-yellow-400">MK-{stats.weaponLevel}</span>
                      </div>
+                     <div className="flex justify-between">
+                         <span>Secondary<span className="text-[10px] text-slate-500">{shortcut('SECONDARY')}</span></span>
+                         <span className="text-orange-400">{stats.secondary ? `${stats.secondary.name} x${stats.secondary.ammo}` : '---'}</span>
+                     </div>
                      <div className="flex justify-between">
                          <span>Kills</span>
                          <span>{stats.enemiesDestroyed}</span>
@@ -182,7 +567,7 @@ export default function App() {
                      </div>
                      <div className="flex justify-between">
                          <span>Acc</span>
-                         <span>{stats.shotsFired > 0 ? Math.round((stats.shotsHit / stats.shotsFired) * 100) : 100}%</span>
+                         <span>{stats.shotsFired > 0 ? stats.accuracy : 100}%</span>
                      </div>
                  </div>
                  
@@ -193,7 +578,7 @@ export default function App() {
                         disabled={gameState === GameState.PAUSED}
                         className="mt-6 w-full py-2 bg-yellow-600/20 border border-yellow-500/50 text-yellow-400 hover:bg-yellow-600/40 transition-colors flex items-center justify-center gap-2 text-xs font-bold disabled:opacity-50"
                      >
-                        <ShoppingCart size={14}/> {gameState === GameState.SHOP ? 'CLOSE ARMORY' : 'OPEN ARMORY [B]'}
+                        <ShoppingCart size={14}/> {gameState === GameState.SHOP ? 'CLOSE ARMORY' : `OPEN ARMORY${shortcut('ARMORY')}`}
                      </button>
                  )}
              </div>
@@ -223,23 +608,80 @@ export default function App() {
                 setGameState={setGameState} 
                 onStatsUpdate={(newStats) => {
                     // Update stats but keep local UI state synced
-                    if(gameState === GameState.PLAYING || gameState === GameState.SHOP || gameState === GameState.PAUSED) setStats(newStats);
-                    if(gameState === GameState.GAME_OVER && stats.score !== newStats.score) handleGameOver(newStats);
+                    if(gameState === GameState.PLAYING || gameState === GameState.SHOP || gameState === GameState.PAUSED || gameState === GameState.REPLAY) setStats(newStats);
                 }} 
-                onEvent={handleGameEvent}
+                events={gameEvents}
+                gamepad={gamepad}
+                touch={touch}
+                bindings={bindings}
+                gaze={gaze}
                 eyeTrackingEnabled={eyeTrackingEnabled}
+                audio={audio}
+                seed={seed}
+                script={scriptId}
+                replay={replay}
+                playback={playback}
+                onReplayProgress={(tick, total) => setReplayProgress({ tick, total })}
             />
+
+            {/* Boss Warning Banner / Health Bar */}
+            {stats.boss && gameState !== GameState.MENU && gameState !== GameState.GAME_OVER && gameState !== GameState.LEADERBOARD && gameState !== GameState.CONTROLS && gameState !== GameState.CALIBRATION && (
+                stats.boss.arriving ? (
+                    <div className="absolute top-1/3 inset-x-0 z-10 pointer-events-none flex justify-center">
+                        <div className="w-full py-4 bg-red-950/70 border-y-2 border-red-500 text-center animate-pulse">
+                            <div className="text-red-400 font-black tracking-[0.5em] text-2xl flex items-center justify-center gap-4">
+                                <AlertTriangle size={24}/> WARNING <AlertTriangle size={24}/>
+                            </div>
+                            <div className="text-red-200/80 font-mono text-sm tracking-widest mt-1">{stats.boss.name} APPROACHING</div>
+                        </div>
+                    </div>
+                ) : (
+                    <div className="absolute top-3 inset-x-6 z-10 pointer-events-none">
+                        <div className="flex justify-between font-mono text-xs mb-1">
+                            <span className="text-purple-300 font-bold tracking-widest">{stats.boss.name}</span>
+                            <span className={stats.boss.shielded ? 'text-cyan-300' : 'text-red-400'}>
+                                {stats.boss.shielded ? 'CORE SHIELDED' : stats.boss.phase}
+                            </span>
+                        </div>
+                        <div className="h-2 bg-slate-900/80 border border-purple-500/50 rounded-full overflow-hidden">
+                            <div
+                                className={`h-full transition-all ${stats.boss.shielded ? 'bg-cyan-400' : 'bg-gradient-to-r from-red-600 to-purple-500'}`}
+                                style={{ width: `${stats.boss.maxHp ? (stats.boss.hp / stats.boss.maxHp) * 100 : 100}%` }}
+                            />
+                        </div>
+                    </div>
+                )
+            )}
             
             {/* Start Screen Overlay */}
             {gameState === GameState.MENU && (
-                <div className="absolute inset-0 bg-black/80 flex flex-col items-center justify-center z-20 backdrop-blur-sm">
+                <div data-gamepad-nav className="absolute inset-0 bg-black/80 flex flex-col items-center justify-center z-20 backdrop-blur-sm">
                     <div className="text-center space-y-6 animate-float">
                         <h1 className="text-6xl font-black text-transparent bg-clip-text bg-gradient-to-b from-cyan-300 to-blue-600 drop-shadow-[0_0_10px_rgba(6,182,212,0.5)]">
                             ASTROWING
                         </h1>
                         <p className="text-cyan-200/60 tracking-[0.3em] text-sm">ADVANCED TACTICAL SIMULATOR</p>
+                        {profile.lifetime.runs > 0 && (
+                            <p className="text-slate-400 font-mono text-xs flex items-center justify-center gap-2">
+                                <Trophy size={12} className="text-yellow-500"/> BEST {profile.lifetime.bestScore} • WAVE {profile.lifetime.bestWave} • {profile.lifetime.runs} SORTIES • {profile.unlocks.length}/{ARMORY_CATALOG.length} UNLOCKED
+                            </p>
+                        )}
                         
                         <div className="flex flex-col gap-4 items-center">
+                            {savedRun && (
+                                <button 
+                                    onClick={resumeMission}
+                                    disabled={isLoading}
+                                    className="group relative px-8 py-3 border border-cyan-500 bg-cyan-950/60 hover:bg-cyan-900/60 text-cyan-200 font-bold tracking-widest transition-all min-w-[250px]"
+                                >
+                                    <span className="relative z-10 flex items-center justify-center gap-2">
+                                        RESUME MISSION <RotateCcw size={16}/>
+                                    </span>
+                                    <span className="block text-[10px] text-cyan-400/70 font-mono tracking-normal">
+                                        {WAVE_SCRIPTS[savedRun.snapshot.script].name} • WAVE {savedRun.snapshot.stats.waveName} • {savedRun.snapshot.stats.score} PTS
+                                    </span>
+                                </button>
+                            )}
                             <button 
                                 onClick={startGame}
                                 disabled={isLoading}
@@ -252,87 +694,255 @@ export default function App() {
                             </button>
                             
                             <button 
-                                onClick={() => setEyeTrackingEnabled(!eyeTrackingEnabled)}
+                                onClick={toggleEyeTracking}
                                 className={`group relative px-6 py-2 border ${eyeTrackingEnabled ? 'border-green-500 bg-green-500/10 text-green-400' : 'border-slate-700 bg-slate-800/50 text-slate-400'} font-bold tracking-wider transition-all min-w-[250px] text-xs`}
                             >
                                 <span className="relative z-10 flex items-center justify-center gap-2">
                                     <Eye size={14}/> EYE TRACKING: {eyeTrackingEnabled ? 'ONLINE' : 'OFFLINE'}
                                 </span>
                             </button>
+
+                            {eyeTrackingEnabled && (
+                                <div className="flex gap-2 min-w-[250px]">
+                                    <button 
+                                        onClick={() => setGameState(GameState.CALIBRATION)}
+                                        className="flex-1 px-3 py-2 border border-slate-700 bg-slate-800/50 text-slate-400 hover:text-cyan-300 font-bold tracking-wider transition-all text-xs flex items-center justify-center gap-2"
+                                    >
+                                        <ScanFace size={14}/> CALIBRATE
+                                    </button>
+                                    <button 
+                                        onClick={cycleGazeFilter}
+                                        className="flex-1 px-3 py-2 border border-slate-700 bg-slate-800/50 text-slate-400 hover:text-cyan-300 font-bold tracking-wider transition-all text-xs flex items-center justify-center gap-2"
+                                    >
+                                        <Waves size={14}/> {GAZE_FILTERS[profile.settings.gazeFilter].toUpperCase()}
+                                    </button>
+                                </div>
+                            )}
+
+                            <button 
+                                onClick={cycleScript}
+                                className="group relative px-6 py-2 border border-slate-700 bg-slate-800/50 text-slate-400 hover:text-cyan-300 font-bold tracking-wider transition-all min-w-[250px] text-xs"
+                            >
+                                <span className="relative z-10 flex items-center justify-center gap-2">
+                                    <Layers size={14}/> MISSION: {WAVE_SCRIPTS[scriptId].name}
+                                </span>
+                            </button>
+
+                            <button 
+                                onClick={cycleCommentary}
+                                className="group relative px-6 py-2 border border-slate-700 bg-slate-800/50 text-slate-400 hover:text-cyan-300 font-bold tracking-wider transition-all min-w-[250px] text-xs"
+                            >
+                                <span className="relative z-10 flex items-center justify-center gap-2">
+                                    <Radio size={14}/> COMMS: {COMMAND_PROVIDERS[profile.settings.commentary]}
+                                </span>
+                            </button>
+
+                            <button 
+                                onClick={toggleTouchSteering}
+                                className="group relative px-6 py-2 border border-slate-700 bg-slate-800/50 text-slate-400 hover:text-cyan-300 font-bold tracking-wider transition-all min-w-[250px] text-xs"
+                            >
+                                <span className="relative z-10 flex items-center justify-center gap-2">
+                                    <Hand size={14}/> TOUCH: {profile.settings.touchSteering === 'DRAG' ? 'DRAG' : 'VIRTUAL STICK'}
+                                </span>
+                            </button>
+
+                            <label className="flex items-center justify-center gap-2 px-6 py-2 border border-slate-700 bg-slate-800/50 text-slate-400 font-bold tracking-wider min-w-[250px] text-xs">
+                                <User size={14}/> CALLSIGN:
+                                <input
+                                    value={profile.callsign}
+                                    onChange={(e) => {
+                                        const callsign = formatCallsign(e.target.value);
+                                        setProfile(prev => ({ ...prev, callsign }));
+                                    }}
+                                    onBlur={() => setProfile(prev => prev.callsign.trim() ? prev : { ...prev, callsign: 'ROOKIE' })}
+                                    className="w-28 bg-transparent border-b border-slate-600 text-cyan-300 text-center font-mono outline-none focus:border-cyan-500"
+                                />
+                            </label>
+
+                            <label className="flex items-center justify-center gap-2 px-6 py-2 border border-slate-700 bg-slate-800/50 text-slate-400 font-bold tracking-wider min-w-[250px] text-xs">
+                                <Hash size={14}/> SEED:
+                                <input
+                                    value={seedInput}
+                                    onChange={(e) => setSeedInput(e.target.value)}
+                                    placeholder="RANDOM"
+                                    inputMode="numeric"
+                                    maxLength={5}
+                                    className="w-20 bg-transparent border-b border-slate-600 text-cyan-300 text-center font-mono outline-none focus:border-cyan-500 placeholder:text-slate-600"
+                                />
+                            </label>
+
+                            <button 
+                                onClick={() => setGameState(GameState.LEADERBOARD)}
+                                className="group relative px-6 py-2 border border-slate-700 bg-slate-800/50 text-slate-400 hover:text-cyan-300 font-bold tracking-wider transition-all min-w-[250px] text-xs"
+                            >
+                                <span className="relative z-10 flex items-center justify-center gap-2">
+                                    <Trophy size={14}/> LEADERBOARD
+                                </span>
+                            </button>
+
+                            <button 
+                                onClick={() => setGameState(GameState.CONTROLS)}
+                                className="group relative px-6 py-2 border border-slate-700 bg-slate-800/50 text-slate-400 hover:text-cyan-300 font-bold tracking-wider transition-all min-w-[250px] text-xs"
+                            >
+                                <span className="relative z-10 flex items-center justify-center gap-2">
+                                    <Keyboard size={14}/> CONTROLS
+                                </span>
+                            </button>
+
+                            <button 
+                                onClick={() => replayInputRef.current?.click()}
+                                className="group relative px-6 py-2 border border-slate-700 bg-slate-800/50 text-slate-400 hover:text-cyan-300 font-bold tracking-wider transition-all min-w-[250px] text-xs"
+                            >
+                                <span className="relative z-10 flex items-center justify-center gap-2">
+                                    <Upload size={14}/> LOAD REPLAY
+                                </span>
+                            </button>
+                            <button 
+                                onClick={startBenchmark}
+                                disabled={isLoading}
+                                className="group relative px-6 py-2 border border-slate-700 bg-slate-800/50 text-slate-400 hover:text-cyan-300 font-bold tracking-wider transition-all min-w-[250px] text-xs disabled:opacity-50"
+                            >
+                                <span className="relative z-10 flex items-center justify-center gap-2">
+                                    <Gauge size={14}/> STRESS TEST
+                                </span>
+                            </button>
+                            <div className="flex gap-2 min-w-[250px]">
+                                <button 
+                                    onClick={exportProfile}
+                                    className="flex-1 px-3 py-2 border border-slate-700 bg-slate-800/50 text-slate-400 hover:text-cyan-300 font-bold tracking-wider transition-all text-xs flex items-center justify-center gap-2"
+                                >
+                                    <Download size={14}/> EXPORT PILOT
+                                </button>
+                                <button 
+                                    onClick={() => profileInputRef.current?.click()}
+                                    className="flex-1 px-3 py-2 border border-slate-700 bg-slate-800/50 text-slate-400 hover:text-cyan-300 font-bold tracking-wider transition-all text-xs flex items-center justify-center gap-2"
+                                >
+                                    <Upload size={14}/> IMPORT PILOT
+                                </button>
+                            </div>
+                            <input
+                                ref={profileInputRef}
+                                type="file"
+                                accept=".json,application/json"
+                                className="hidden"
+                                onChange={(e) => {
+                                    const file = e.target.files?.[0];
+                                    if (file) importProfile(file);
+                                    e.target.value = '';
+                                }}
+                            />
+                            <input
+                                ref={replayInputRef}
+                                type="file"
+                                accept=".json,application/json"
+                                className="hidden"
+                                onChange={(e) => {
+                                    const file = e.target.files?.[0];
+                                    if (file) loadReplay(file);
+                                    e.target.value = '';
+                                }}
+                            />
                         </div>
                     </div>
                 </div>
             )}
 
+            {/* Leaderboard Overlay */}
+            {gameState === GameState.LEADERBOARD && (
+                <Leaderboard
+                    entries={leaderboard}
+                    onClose={() => setGameState(GameState.MENU)}
+                    onExport={exportLeaderboard}
+                    onImport={importLeaderboard}
+                />
+            )}
+
+            {/* Controls Overlay */}
+            {gameState === GameState.CONTROLS && (
+                <ControlsSettings
+                    bindings={bindings}
+                    onChange={updateBindings}
+                    mixer={profile.settings.audio}
+                    onMixerChange={updateMixer}
+                    onClose={() => setGameState(GameState.MENU)}
+                />
+            )}
+
+            {/* Calibration Overlay */}
+            {gameState === GameState.CALIBRATION && (
+                <GazeCalibration
+                    tracker={gaze}
+                    onComplete={(accuracy) => {
+                        addLog('SYSTEM', `Gaze calibrated: ${accuracy}% accuracy.`, accuracy < 40 ? 'high' : 'normal');
+                        setGameState(GameState.MENU);
+                    }}
+                    onCancel={() => setGameState(GameState.MENU)}
+                />
+            )}
+
             {/* Paused Overlay */}
             {gameState === GameState.PAUSED && (
-                <div className="absolute inset-0 bg-black/60 flex flex-col items-center justify-center z-30 backdrop-blur-sm">
+                <div data-gamepad-nav className="absolute inset-0 bg-black/60 flex flex-col items-center justify-center z-30 backdrop-blur-sm">
                      <div className="bg-slate-900/80 border border-cyan-500/50 p-8 rounded-xl text-center shadow-2xl shadow-cyan-900/50 transform scale-110">
                          <h2 className="text-3xl font-black text-white tracking-[0.2em] mb-2 flex items-center justify-center gap-4">
                              <Pause className="w-8 h-8 text-cyan-400" fill="currentColor"/>
                              PAUSED
                          </h2>
-                         <p className="text-cyan-200/50 font-mono text-sm mb-6">SYSTEMS SUSPENDED</p>
+                         <p className={`${gazeLost ? 'text-red-400' : 'text-cyan-200/50'} font-mono text-sm mb-6`}>{gazeLost ? 'GAZE LOST • LOOK BACK AT THE SCREEN' : 'SYSTEMS SUSPENDED'}</p>
                          <button 
                             onClick={togglePause}
                             className="px-8 py-2 bg-cyan-600 hover:bg-cyan-500 text-white font-bold rounded transition-colors"
                          >
-                             RESUME [P]
+                             RESUME{shortcut('PAUSE')}
                          </button>
+                         <div className="mt-6 w-64">
+                             <AudioMixer mixer={profile.settings.audio} onChange={updateMixer} muteShortcut={shortcut('MUTE')} />
+                         </div>
                      </div>
                 </div>
             )}
 
             {/* Shop Overlay */}
             {gameState === GameState.SHOP && (
-                <div className="absolute inset-0 bg-slate-950/90 flex flex-col items-center justify-center z-30 backdrop-blur-md p-6">
+                <div data-gamepad-nav className="absolute inset-0 bg-slate-950/90 flex flex-col items-center justify-center z-30 backdrop-blur-md p-6">
                     <div className="w-full max-w-md border border-yellow-500/30 bg-black/50 p-6 rounded-lg shadow-2xl shadow-yellow-900/20">
                         <div className="flex justify-between items-center mb-6 border-b border-yellow-500/30 pb-4">
                             <h2 className="text-2xl font-bold text-yellow-500 flex items-center gap-2"><ShoppingCart /> FIELD ARMORY</h2>
                             <span className="text-yellow-400 font-mono">{stats.credits} CREDITS</span>
                         </div>
 
-                        <div className="space-y-4">
-                             {/* Weapon Upgrade */}
-                             <button 
-                                onClick={() => purchaseItem('WEAPON')}
-                                disabled={stats.weaponLevel >= 4 || stats.credits < stats.weaponLevel * 2500}
-                                className="w-full p-4 bg-slate-900/80 border border-slate-700 hover:border-yellow-500 group transition-all disabled:opacity-50 disabled:cursor-not-allowed text-left"
-                             >
-                                 <div className="flex justify-between items-start">
-                                     <div>
-                                         <div className="text-yellow-400 font-bold flex items-center gap-2"><Zap size={16}/> UPGRADE WEAPON</div>
-                                         <div className="text-xs text-slate-400 mt-1">
-                                             {stats.weaponLevel === 1 && "Install Dual-Phase Blasters"}
-                                             {stats.weaponLevel === 2 && "Install Tri-Spread Cannon"}
-                                             {stats.weaponLevel === 3 && "Install Omni-Directional Array"}
-                                             {stats.weaponLevel >= 4 && "MAXIMUM POWER REACHED"}
-                                         </div>
-                                     </div>
-                                     <div className="text-right">
-                                         <div className="text-yellow-500 font-mono">{stats.weaponLevel < 4 ? stats.weaponLevel * 2500 : '---'} CR</div>
-                                         <div className="text-[10px] text-slate-500">MK-{stats.weaponLevel} ➞ MK-{Math.min(4, stats.weaponLevel+1)}</div>
-                                     </div>
-                                 </div>
-                             </button>
-
-                             {/* Repair */}
-                             <button 
-                                onClick={() => purchaseItem('REPAIR')}
-                                disabled={stats.credits < 1000}
-                                className="w-full p-4 bg-slate-900/80 border border-slate-700 hover:border-green-500 group transition-all disabled:opacity-50 disabled:cursor-not-allowed text-left"
-                             >
-                                 <div className="flex justify-between items-start">
-                                     <div>
-                                         <div className="text-green-400 font-bold flex items-center gap-2"><Hammer size={16}/> EMERGENCY REPAIRS</div>
-                                         <div className="text-xs text-slate-400 mt-1">Restore 50% Hull Integrity</div>
-                                     </div>
-                                     <div className="text-right">
-                                         <div className="text-green-500 font-mono">1000 CR</div>
-                                         <div className="text-[10px] text-slate-500">+50 HP</div>
+                        <div className="space-y-5 max-h-[60vh] overflow-y-auto pr-2 scrollbar-thin">
+                             {ARMORY_CATEGORIES.map(category => {
+                                 const style = CATEGORY_STYLE[category];
+                                 const Icon = style.icon;
+                                 return (
+                                     <div key={category} className="space-y-2">
+                                         <h3 className={`text-[10px] tracking-[0.3em] ${style.text}`}>{category}</h3>
+                                         {armoryOffers.filter(offer => offer.item.category === category).map(({ item, price, owned, available, reason }) => (
+                                             <button 
+                                                key={item.id}
+                                                onClick={() => purchaseItem(item.id)}
+                                                disabled={!available}
+                                                className={`w-full p-3 bg-slate-900/80 border border-slate-700 ${style.hover} group transition-all disabled:opacity-50 disabled:cursor-not-allowed text-left`}
+                                             >
+                                                 <div className="flex justify-between items-start">
+                                                     <div>
+                                                         <div className={`${style.text} font-bold flex items-center gap-2`}><Icon size={16}/> {item.name.toUpperCase()}</div>
+                                                         <div className="text-xs text-slate-400 mt-1">{reason || item.description}</div>
+                                                     </div>
+                                                     <div className="text-right shrink-0 ml-4">
+                                                         <div className={`${style.price} font-mono`}>{reason === 'SOLD OUT' ? '---' : price} CR</div>
+                                                         <div className="text-[10px] text-slate-500">
+                                                             {item.id === 'WEAPON' ? `MK-${owned + 1} ➞ MK-${Math.min(MAX_WEAPON_LEVEL, owned + 2)}`
+                                                               : item.stock !== undefined ? `${owned}/${item.stock}` : ''}
+                                                         </div>
+                                                     </div>
+                                                 </div>
+                                             </button>
+                                         ))}
                                      </div>
-                                 </div>
-                             </button>
+                                 );
+                             })}
                         </div>
 
                         <button 
@@ -347,9 +957,9 @@ export default function App() {
 
             {/* Game Over Overlay */}
             {gameState === GameState.GAME_OVER && (
-                <div className="absolute inset-0 bg-red-950/90 flex flex-col items-center justify-center z-20 backdrop-blur-md p-8">
+                <div data-gamepad-nav className="absolute inset-0 bg-red-950/90 flex flex-col items-center justify-center z-20 backdrop-blur-md p-8">
                      <h2 className="text-4xl font-bold text-red-500 mb-2">MISSION FAILED</h2>
-                     <p className="text-red-200/50 mb-8 font-mono">SIGNAL LOST</p>
+                     <p className="text-red-200/50 mb-8 font-mono">SIGNAL LOST • SEED {seed} • WAVE {stats.waveName}</p>
                      
                      <div className="grid grid-cols-2 gap-8 w-full max-w-sm mb-8">
                          <div className="bg-black/40 p-4 rounded border border-red-900/50 text-center">
@@ -358,23 +968,106 @@ export default function App() {
                          </div>
                          <div className="bg-black/40 p-4 rounded border border-red-900/50 text-center">
                              <div className="text-xs text-red-400 uppercase">Rank</div>
-                             <div className="text-2xl font-mono text-yellow-400">{isLoading ? 'CALCULATING...' : debrief?.rank || 'UNKNOWN'}</div>
+                             <div className="text-2xl font-mono text-yellow-400">{debrief?.report.rank || 'CALCULATING...'}</div>
                          </div>
                      </div>
 
+                     {debrief && (
+                         <div className="w-full max-w-sm mb-6 font-mono">
+                             <div className="grid grid-cols-4 gap-2 text-center">
+                                 {GRADE_CATEGORIES.map(category => (
+                                     <div key={category} className="bg-black/40 p-2 rounded border border-red-900/50">
+                                         <div className="text-[10px] text-red-400 uppercase">{category}</div>
+                                         <div className="text-xl text-yellow-400">{debrief.report.grades[category].grade}</div>
+                                     </div>
+                                 ))}
+                             </div>
+                             {debrief.report.highlights.map(highlight => (
+                                 <div key={highlight} className="text-xs text-slate-300 mt-2 flex items-center gap-2">
+                                     <Award size={12} className="text-yellow-500"/> {highlight}
+                                 </div>
+                             ))}
+                         </div>
+                     )}
+
                      {debrief && (
                          <div className="max-w-md bg-black/50 border-l-4 border-yellow-500 p-4 mb-8 text-sm text-slate-300 italic">
-                             "{debrief.message}"
+                             {debrief.message ? `"${debrief.message}"` : 'Awaiting Command...'}
                              <div className="text-right text-[10px] text-slate-500 mt-2">- MISSION COMMAND</div>
                          </div>
                      )}
 
-                     <button 
-                        onClick={startGame}
-                        className="px-6 py-2 border border-white/20 hover:bg-white/10 flex items-center gap-2 transition-colors"
-                     >
-                         <RotateCcw size={16}/> REBOOT SYSTEM
-                     </button>
+                     <div className="flex gap-4">
+                         <button 
+                            onClick={startGame}
+                            className="px-6 py-2 border border-white/20 hover:bg-white/10 flex items-center gap-2 transition-colors"
+                         >
+                             <RotateCcw size={16}/> REBOOT SYSTEM
+                         </button>
+                         {ledger && (
+                             <button 
+                                onClick={() => setShowReport(true)}
+                                className="px-6 py-2 border border-white/20 hover:bg-white/10 flex items-center gap-2 transition-colors"
+                             >
+                                 <BarChart3 size={16}/> AFTER-ACTION REPORT
+                             </button>
+                         )}
+                         <button 
+                            onClick={downloadReplay}
+                            className="px-6 py-2 border border-white/20 hover:bg-white/10 flex items-center gap-2 transition-colors"
+                         >
+                             <Download size={16}/> DOWNLOAD REPLAY
+                         </button>
+                     </div>
+                </div>
+            )}
+
+            {/* After-Action Report */}
+            {gameState === GameState.GAME_OVER && showReport && ledger && (
+                <AfterActionReport ledger={ledger} stats={stats} onClose={() => setShowReport(false)} />
+            )}
+
+            {/* Replay Controls */}
+            {gameState === GameState.REPLAY && (
+                <div className="absolute bottom-0 left-0 right-0 z-20 bg-slate-950/80 border-t border-cyan-900/50 backdrop-blur-sm p-3 font-mono text-xs">
+                    <div className="flex items-center justify-between mb-2 text-cyan-400">
+                        <span className="flex items-center gap-2"><Film size={14}/> REPLAY • SEED {replay?.seed}</span>
+                        <span className="text-slate-400">
+                            {Math.floor(stats.timeSurvived)}s / {Math.floor(replay?.stats?.timeSurvived ?? 0)}s • TICK {replayProgress.tick}/{replayProgress.total}
+                        </span>
+                    </div>
+                    <input
+                        type="range"
+                        min={0}
+                        max={replayProgress.total}
+                        value={replayProgress.tick}
+                        onChange={(e) => gameCanvasRef.current?.seekReplay(Number(e.target.value))}
+                        className="w-full accent-cyan-500 mb-2"
+                    />
+                    <div className="flex items-center gap-2">
+                        <button 
+                            onClick={togglePause}
+                            className="px-3 py-1 bg-cyan-600 hover:bg-cyan-500 text-white font-bold rounded flex items-center gap-1"
+                        >
+                            {playback.paused ? <Play size={12} fill="currentColor"/> : <Pause size={12} fill="currentColor"/>}
+                            {playback.paused ? 'PLAY' : 'PAUSE'}{shortcut('PAUSE')}
+                        </button>
+                        {[0.5, 1, 2, 4].map(speed => (
+                            <button 
+                                key={speed}
+                                onClick={() => setPlayback(prev => ({ ...prev, speed }))}
+                                className={`px-2 py-1 border rounded flex items-center gap-1 ${playback.speed === speed ? 'border-cyan-500 text-cyan-300' : 'border-slate-700 text-slate-400'}`}
+                            >
+                                <FastForward size={10}/> {speed}x
+                            </button>
+                        ))}
+                        <button 
+                            onClick={exitReplay}
+                            className="ml-auto px-3 py-1 border border-slate-700 hover:border-red-500 text-slate-400 hover:text-red-400 rounded flex items-center gap-1"
+                        >
+                            <X size={12}/> EXIT
+                        </button>
+                    </div>
                 </div>
             )}
         </div>
@@ -393,7 +1086,7 @@ export default function App() {
       
       {/* Footer Instructions */}
       <div className="fixed bottom-4 text-center w-full text-slate-500 text-xs font-mono pointer-events-none">
-          CONTROLS: MOUSE TO MOVE • [B] ARMORY • [P] PAUSE • {eyeTrackingEnabled ? 'EYE TRACKING ON' : 'EYE TRACKING OFF'}
+          CONTROLS: MOUSE TO MOVE • {describeBindings(bindings)} • PAD: STICK • A SECONDARY • Y ARMORY • START PAUSE • TOUCH: DRAG OR STICK, ON-SCREEN BUTTONS • {eyeTrackingEnabled ? 'EYE TRACKING ON' : 'EYE TRACKING OFF'}
       </div>
 
     </div>
@@ -0,0 +1,158 @@
+import React from 'react';
+import { GameStats } from '../types';
+import { CombatLedger, ShotTally, TimelineSample, WaveRecord, totalOf } from '../game/analytics';
+import { SECONDARY_WEAPONS } from '../game/weapons';
+import { BarChart3, X } from 'lucide-react';
+
+interface AfterActionReportProps {
+  ledger: CombatLedger;
+  stats: GameStats;
+  onClose: () => void;
+}
+
+// Chart viewBox; the SVGs scale to their container
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 90;
+
+const weaponName = (weapon: string) =>
+  weapon === 'PRIMARY' ? 'Primary Cannon' : SECONDARY_WEAPONS[weapon as keyof typeof SECONDARY_WEAPONS]?.name || weapon;
+
+const archetypeName = (id: string) => id.toUpperCase();
+
+// Largest first
+const ranked = (record: Partial<Record<string, number>>) =>
+  Object.entries(record)
+    .map(([key, value]) => [key, value || 0] as [string, number])
+    .sort((a, b) => b[1] - a[1]);
+
+const points = (samples: TimelineSample[], value: (s: TimelineSample) => number, maxTime: number, maxValue: number) =>
+  samples.map(s => `${(s.time / maxTime) * CHART_WIDTH},${CHART_HEIGHT - (value(s) / maxValue) * CHART_HEIGHT}`).join(' ');
+
+const HullTimeline: React.FC<{ timeline: TimelineSample[] }> = ({ timeline }) => {
+  const maxTime = Math.max(1, ...timeline.map(s => s.time));
+  const maxValue = Math.max(1, ...timeline.map(s => Math.max(s.hp, s.shield)));
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} preserveAspectRatio="none" className="w-full h-24 bg-black/40 border border-slate-800">
+      <polyline points={points(timeline, s => s.shield, maxTime, maxValue)} fill="none" stroke="#38bdf8" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+      <polyline points={points(timeline, s => s.hp, maxTime, maxValue)} fill="none" stroke="#4ade80" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+    </svg>
+  );
+};
+
+const KillsPerWave: React.FC<{ waves: WaveRecord[] }> = ({ waves }) => {
+  const maxKills = Math.max(1, ...waves.map(w => w.kills));
+  const slot = CHART_WIDTH / Math.max(1, waves.length);
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} preserveAspectRatio="none" className="w-full h-24 bg-black/40 border border-slate-800">
+      {waves.map((w, i) => {
+        const height = (w.kills / maxKills) * (CHART_HEIGHT - 4);
+        return (
+          <rect
+            key={i}
+            x={i * slot + slot * 0.15}
+            y={CHART_HEIGHT - height}
+            width={slot * 0.7}
+            height={height}
+            fill={w.clearedAt === null ? '#f87171' : '#facc15'}
+          >
+            <title>{`Wave ${w.name}: ${w.kills} kills, ${Math.round(w.damageTaken)} damage taken`}</title>
+          </rect>
+        );
+      })}
+    </svg>
+  );
+};
+
+// Label / value rows under a heading
+const Breakdown: React.FC<{ title: string; rows: [string, string | number][]; empty?: string }> = ({ title, rows, empty = '---' }) => (
+  <div>
+    <h3 className="text-[10px] tracking-[0.3em] text-cyan-400 mb-1">{title}</h3>
+    {rows.length === 0 && <div className="text-slate-600">{empty}</div>}
+    {rows.map(([label, value]) => (
+      <div key={label} className="flex justify-between border-b border-slate-800 py-0.5">
+        <span className="text-slate-500">{label}</span>
+        <span>{value}</span>
+      </div>
+    ))}
+  </div>
+);
+
+export const AfterActionReport: React.FC<AfterActionReportProps> = ({ ledger, stats, onClose }) => {
+  const damageTaken = totalOf(ledger.damageTaken);
+  const spent = totalOf(ledger.creditsSpent);
+
+  return (
+    <div data-gamepad-nav className="absolute inset-0 bg-slate-950/95 flex flex-col z-30 backdrop-blur-md p-6 font-mono">
+      <div className="flex justify-between items-center mb-4 border-b border-cyan-500/30 pb-3">
+        <h2 className="text-2xl font-bold text-cyan-400 flex items-center gap-2 font-display"><BarChart3 /> AFTER-ACTION REPORT</h2>
+        <button onClick={onClose} className="px-3 py-1 text-xs border border-slate-700 hover:border-red-500 text-slate-400 hover:text-red-400 flex items-center gap-1">
+          <X size={12}/> CLOSE
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto scrollbar-thin text-xs space-y-5">
+        {/* Charts */}
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <h3 className="text-[10px] tracking-[0.3em] text-cyan-400 mb-1">
+              HULL <span className="text-green-400">■</span> / SHIELD <span className="text-sky-400">■</span>
+            </h3>
+            <HullTimeline timeline={ledger.timeline} />
+            <div className="flex justify-between text-[10px] text-slate-600 mt-1">
+              <span>0s</span><span>{Math.floor(stats.timeSurvived)}s</span>
+            </div>
+          </div>
+          <div>
+            <h3 className="text-[10px] tracking-[0.3em] text-cyan-400 mb-1">KILLS PER WAVE</h3>
+            <KillsPerWave waves={ledger.waves} />
+            <div className="flex justify-between text-[10px] text-slate-600 mt-1">
+              <span>{ledger.waves[0]?.name}</span><span>{ledger.waves[ledger.waves.length - 1]?.name}</span>
+            </div>
+          </div>
+        </div>
+
+        {/* Ledger */}
+        <div className="grid grid-cols-2 gap-x-8 gap-y-5 text-slate-300">
+          <Breakdown
+            title="DAMAGE DEALT"
+            rows={ranked(ledger.damageDealt).map(([weapon, amount]) =>
+              [`${weaponName(weapon)} (${ledger.killsByWeapon[weapon as keyof typeof ledger.killsByWeapon] || 0} kills)`, Math.round(amount)])}
+          />
+          <Breakdown
+            title="DAMAGE TAKEN"
+            empty="UNTOUCHED"
+            rows={[
+              ...ranked(ledger.damageTaken).map(([attacker, amount]) => [archetypeName(attacker), Math.round(amount)] as [string, number]),
+              ...(damageTaken > 0 ? [['Of which collisions', Math.round(ledger.collisionDamage)] as [string, number]] : [])
+            ]}
+          />
+          <Breakdown
+            title="KILLS BY TYPE"
+            rows={ranked(ledger.kills).map(([archetype, kills]) => [archetypeName(archetype), kills])}
+          />
+          <Breakdown
+            title="ACCURACY"
+            rows={(Object.entries(ledger.shots) as [string, ShotTally][]).map(([key, { fired, hit }]) =>
+              [`${key in SECONDARY_WEAPONS ? weaponName(key) : key} (${hit}/${fired})`, `${fired > 0 ? Math.round((hit / fired) * 100) : 0}%`])}
+          />
+          <Breakdown
+            title="CREDITS"
+            rows={[
+              ['Earned', ledger.creditsEarned],
+              ['Spent', spent],
+              ['Banked', stats.credits],
+              ...ranked(ledger.creditsSpent).map(([item, price]) => [`· ${item.replace(/_/g, ' ')}`, price] as [string, number])
+            ]}
+          />
+          <Breakdown
+            title="WAVES"
+            rows={ledger.waves.map(w => [
+              `Wave ${w.name}`,
+              w.clearedAt === null ? 'NOT CLEARED' : `${Math.round(w.clearedAt - w.startedAt)}s`
+            ])}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
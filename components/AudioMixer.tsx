@@ -0,0 +1,43 @@
+import React from 'react';
+import { MixerSettings } from '../game/audio';
+import { Volume2, VolumeX } from 'lucide-react';
+
+interface AudioMixerProps {
+  mixer: MixerSettings;
+  onChange: (mixer: MixerSettings) => void;
+  muteShortcut: string; // e.g. ' [M]', empty if unbound
+}
+
+type Channel = 'master' | 'sfx' | 'music';
+
+const CHANNELS: { channel: Channel; label: string }[] = [
+  { channel: 'master', label: 'MASTER' },
+  { channel: 'sfx', label: 'EFFECTS' },
+  { channel: 'music', label: 'MUSIC' }
+];
+
+export const AudioMixer: React.FC<AudioMixerProps> = ({ mixer, onChange, muteShortcut }) => (
+  <div className="font-mono text-xs space-y-2">
+    {CHANNELS.map(({ channel, label }) => (
+      <label key={channel} className="flex items-center gap-3">
+        <span className="w-16 text-left text-slate-400">{label}</span>
+        <input
+          type="range"
+          min={0}
+          max={100}
+          value={Math.round(mixer[channel] * 100)}
+          onChange={e => onChange({ ...mixer, [channel]: Number(e.target.value) / 100 })}
+          disabled={mixer.muted}
+          className="flex-1 accent-cyan-500 disabled:opacity-30"
+        />
+        <span className="w-8 text-right text-cyan-300">{Math.round(mixer[channel] * 100)}</span>
+      </label>
+    ))}
+    <button
+      onClick={() => onChange({ ...mixer, muted: !mixer.muted })}
+      className={`w-full px-3 py-1 border flex items-center justify-center gap-2 ${mixer.muted ? 'border-red-500 text-red-400' : 'border-slate-700 text-slate-400 hover:text-cyan-300'}`}
+    >
+      {mixer.muted ? <VolumeX size={12}/> : <Volume2 size={12}/>} {mixer.muted ? 'MUTED' : 'SOUND ON'}{muteShortcut}
+    </button>
+  </div>
+);
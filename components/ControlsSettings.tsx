@@ -0,0 +1,122 @@
+import React, { useState, useEffect } from 'react';
+import { KeyBindings, ControlAction, CONTROL_ACTIONS, CONTROL_LABELS, DEFAULT_BINDINGS, MAX_BINDINGS, CANCEL_KEY, keyLabel, findConflict, bindKey, unbindKey } from '../game/controls';
+import { MixerSettings } from '../game/audio';
+import { AudioMixer } from './AudioMixer';
+import { Keyboard, X, Plus, RotateCcw } from 'lucide-react';
+
+interface ControlsSettingsProps {
+  bindings: KeyBindings;
+  onChange: (bindings: KeyBindings) => void;
+  mixer: MixerSettings;
+  onMixerChange: (mixer: MixerSettings) => void;
+  onClose: () => void;
+}
+
+// A key already driving another action, waiting for the pilot to confirm the move
+interface PendingConflict {
+  action: ControlAction;
+  code: string;
+  owner: ControlAction;
+}
+
+export const ControlsSettings: React.FC<ControlsSettingsProps> = ({ bindings, onChange, mixer, onMixerChange, onClose }) => {
+  const [listening, setListening] = useState<ControlAction | null>(null);
+  const [conflict, setConflict] = useState<PendingConflict | null>(null);
+
+  // Capture the next key press while rebinding, ahead of the game's own listeners
+  useEffect(() => {
+    if (!listening) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      setListening(null);
+      if (e.code === CANCEL_KEY) return;
+
+      const owner = findConflict(bindings, listening, e.code);
+      if (owner) {
+        setConflict({ action: listening, code: e.code, owner });
+      } else {
+        onChange(bindKey(bindings, listening, e.code));
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [listening, bindings, onChange]);
+
+  const startListening = (action: ControlAction) => {
+    setConflict(null);
+    setListening(action);
+  };
+
+  return (
+    <div data-gamepad-nav className="absolute inset-0 bg-slate-950/95 flex flex-col z-30 backdrop-blur-md p-6 font-mono">
+      <div className="flex justify-between items-center mb-4 border-b border-cyan-500/30 pb-3">
+        <h2 className="text-2xl font-bold text-cyan-400 flex items-center gap-2 font-display"><Keyboard /> CONTROLS</h2>
+        <div className="flex gap-2 text-xs">
+          <button onClick={() => { setConflict(null); onChange(DEFAULT_BINDINGS); }} className="px-3 py-1 border border-slate-700 text-slate-400 hover:text-cyan-300 flex items-center gap-1">
+            <RotateCcw size={12}/> DEFAULTS
+          </button>
+          <button onClick={onClose} className="px-3 py-1 border border-slate-700 hover:border-red-500 text-slate-400 hover:text-red-400 flex items-center gap-1">
+            <X size={12}/> CLOSE
+          </button>
+        </div>
+      </div>
+
+      {/* Status */}
+      <div className="h-12 mb-2 text-xs flex items-center">
+        {listening && (
+          <span className="text-yellow-400 animate-pulse">PRESS A KEY FOR {CONTROL_LABELS[listening].toUpperCase()} • [{keyLabel(CANCEL_KEY)}] CANCEL</span>
+        )}
+        {conflict && (
+          <div className="flex items-center gap-3 text-orange-400">
+            <span>[{keyLabel(conflict.code)}] ALREADY DRIVES {CONTROL_LABELS[conflict.owner].toUpperCase()}</span>
+            <button
+              onClick={() => { onChange(bindKey(bindings, conflict.action, conflict.code)); setConflict(null); }}
+              className="px-2 py-1 border border-orange-500 hover:bg-orange-500/20"
+            >
+              MOVE TO {CONTROL_LABELS[conflict.action].toUpperCase()}
+            </button>
+            <button onClick={() => setConflict(null)} className="px-2 py-1 border border-slate-700 text-slate-400 hover:text-slate-200">
+              KEEP
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Bindings */}
+      <div className="flex-1 overflow-y-auto scrollbar-thin text-sm">
+        {CONTROL_ACTIONS.map(action => (
+          <div key={action} className="flex items-center justify-between border-b border-slate-800 py-2">
+            <span className="text-slate-300">{CONTROL_LABELS[action]}</span>
+            <div className="flex items-center gap-2">
+              {bindings[action].length === 0 && <span className="text-red-400 text-xs">UNBOUND</span>}
+              {bindings[action].map(code => (
+                <button
+                  key={code}
+                  onClick={() => onChange(unbindKey(bindings, action, code))}
+                  title="Remove"
+                  className="px-2 py-1 border border-cyan-800 text-cyan-300 hover:border-red-500 hover:text-red-400 text-xs flex items-center gap-1"
+                >
+                  {keyLabel(code)} <X size={10}/>
+                </button>
+              ))}
+              <button
+                onClick={() => startListening(action)}
+                disabled={bindings[action].length >= MAX_BINDINGS}
+                className={`px-2 py-1 border text-xs flex items-center gap-1 disabled:opacity-30 ${listening === action ? 'border-yellow-400 text-yellow-400' : 'border-slate-700 text-slate-400 hover:text-cyan-300'}`}
+              >
+                <Plus size={10}/> BIND
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Audio */}
+      <div className="mt-4 pt-3 border-t border-cyan-500/30">
+        <h3 className="text-[10px] tracking-[0.3em] text-cyan-400 mb-2">AUDIO</h3>
+        <AudioMixer mixer={mixer} onChange={onMixerChange} muteShortcut={bindings.MUTE.length ? ` [${keyLabel(bindings.MUTE[0])}]` : ''} />
+      </div>
+    </div>
+  );
+};
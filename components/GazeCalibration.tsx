@@ -0,0 +1,109 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Position } from '../types';
+import { GazeTracker, CALIBRATION_POINTS, CLICKS_PER_POINT, calibrationAccuracy } from '../game/gaze';
+import { Eye, X, RotateCcw, Check } from 'lucide-react';
+
+interface GazeCalibrationProps {
+  tracker: GazeTracker;
+  onComplete: (accuracy: number) => void;
+  onCancel: () => void;
+}
+
+type CalibrationPhase = 'CLICK' | 'MEASURE' | 'RESULT';
+
+// Measurement: look at the centre dot; the first moments are the eyes settling
+const SETTLE_MS = 500;
+const MEASURE_MS = 3000;
+
+export const GazeCalibration: React.FC<GazeCalibrationProps> = ({ tracker, onComplete, onCancel }) => {
+  const rootRef = useRef<HTMLDivElement>(null);
+  const [phase, setPhase] = useState<CalibrationPhase>('CLICK');
+  const [point, setPoint] = useState(0);
+  const [clicks, setClicks] = useState(0);
+  const [accuracy, setAccuracy] = useState(0);
+
+  // Page position of a point given as fractions of the play area
+  const pagePoint = (fraction: Position): Position => {
+    const rect = rootRef.current!.getBoundingClientRect();
+    return { x: rect.left + fraction.x * rect.width, y: rect.top + fraction.y * rect.height };
+  };
+
+  const restart = () => {
+    setPoint(0);
+    setClicks(0);
+    setPhase('CLICK');
+  };
+
+  const handleClick = () => {
+    tracker.calibrate(pagePoint(CALIBRATION_POINTS[point]));
+    if (clicks + 1 < CLICKS_PER_POINT) {
+      setClicks(clicks + 1);
+    } else if (point + 1 < CALIBRATION_POINTS.length) {
+      setPoint(point + 1);
+      setClicks(0);
+    } else {
+      setPhase('MEASURE');
+    }
+  };
+
+  // Score how closely raw predictions land on the centre dot
+  useEffect(() => {
+    if (phase !== 'MEASURE' || !rootRef.current) return;
+    const rect = rootRef.current.getBoundingClientRect();
+    const centre = pagePoint({ x: 0.5, y: 0.5 });
+    const startedAt = performance.now();
+    const samples: Position[] = [];
+    const unsubscribe = tracker.onSample(sample => {
+      if (sample.time - startedAt >= SETTLE_MS) samples.push(sample);
+    });
+    const timer = window.setTimeout(() => {
+      setAccuracy(calibrationAccuracy(samples, centre, Math.min(rect.width, rect.height) / 2));
+      setPhase('RESULT');
+    }, SETTLE_MS + MEASURE_MS);
+    return () => { unsubscribe(); window.clearTimeout(timer); };
+  }, [phase, tracker]);
+
+  const target = phase === 'CLICK' ? CALIBRATION_POINTS[point] : { x: 0.5, y: 0.5 };
+
+  return (
+    <div ref={rootRef} data-gamepad-nav className="absolute inset-0 bg-slate-950/95 z-30 font-mono">
+      <div className="absolute top-4 inset-x-4 flex justify-between items-start">
+        <div>
+          <h2 className="text-2xl font-bold text-cyan-400 flex items-center gap-2 font-display"><Eye /> GAZE CALIBRATION</h2>
+          <p className="text-xs text-slate-400 mt-1">
+            {phase === 'CLICK' && `LOOK AT THE DOT AND CLICK IT ${CLICKS_PER_POINT} TIMES • POINT ${point + 1}/${CALIBRATION_POINTS.length}`}
+            {phase === 'MEASURE' && 'KEEP LOOKING AT THE DOT • MEASURING ACCURACY'}
+            {phase === 'RESULT' && 'CALIBRATION COMPLETE'}
+          </p>
+        </div>
+        <button onClick={onCancel} className="px-3 py-1 text-xs border border-slate-700 hover:border-red-500 text-slate-400 hover:text-red-400 flex items-center gap-1">
+          <X size={12}/> CANCEL
+        </button>
+      </div>
+
+      {phase !== 'RESULT' && (
+        <button
+          onClick={phase === 'CLICK' ? handleClick : undefined}
+          className={`absolute w-6 h-6 -ml-3 -mt-3 rounded-full border-2 ${phase === 'CLICK' ? 'border-yellow-300 bg-yellow-400' : 'border-cyan-300 bg-cyan-400 animate-pulse'}`}
+          style={{ left: `${target.x * 100}%`, top: `${target.y * 100}%`, opacity: phase === 'CLICK' ? 0.4 + 0.6 * ((clicks + 1) / CLICKS_PER_POINT) : 1 }}
+        />
+      )}
+
+      {phase === 'RESULT' && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center gap-4">
+          <div className="text-xs text-slate-500 tracking-[0.3em]">ACCURACY</div>
+          <div className={`text-6xl font-black ${accuracy >= 70 ? 'text-green-400' : accuracy >= 40 ? 'text-yellow-400' : 'text-red-400'}`}>{accuracy}%</div>
+          {accuracy < 40 && <div className="text-xs text-red-400">Check lighting and keep your head still, then try again.</div>}
+          <div className="flex gap-3">
+            <button onClick={restart} className="px-4 py-2 border border-slate-700 text-slate-300 hover:text-cyan-300 text-xs flex items-center gap-2">
+              <RotateCcw size={14}/> RECALIBRATE
+            </button>
+            <button onClick={() => onComplete(accuracy)} className="px-4 py-2 bg-cyan-600 hover:bg-cyan-500 text-white font-bold text-xs flex items-center gap-2">
+              <Check size={14}/> DONE
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,153 @@
+import React, { useState, useRef } from 'react';
+import { LeaderboardEntry, LeaderboardSort, LEADERBOARD_SORTS, sortEntries, accuracyOf } from '../game/leaderboard';
+import { WAVE_SCRIPTS } from '../game/waves';
+import { Trophy, Download, Upload, X, ChevronLeft } from 'lucide-react';
+
+interface LeaderboardProps {
+  entries: LeaderboardEntry[];
+  onClose: () => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+}
+
+const ALL_MODES = 'ALL';
+
+const SORT_LABEL: Record<LeaderboardSort, string> = {
+  score: 'SCORE', wave: 'WAVE', kills: 'KILLS', accuracy: 'ACC', time: 'TIME', date: 'DATE'
+};
+
+const modeName = (script: string) => WAVE_SCRIPTS[script]?.name || script.toUpperCase();
+
+const formatDate = (timestamp: number) => new Date(timestamp).toISOString().slice(0, 10);
+
+export const Leaderboard: React.FC<LeaderboardProps> = ({ entries, onClose, onExport, onImport }) => {
+  const [sort, setSort] = useState<LeaderboardSort>('score');
+  const [mode, setMode] = useState(ALL_MODES);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const modes: string[] = [ALL_MODES, ...new Set<string>(entries.map(e => e.script))];
+  const visible = sortEntries(mode === ALL_MODES ? entries : entries.filter(e => e.script === mode), sort);
+  const selected = entries.find(e => e.id === selectedId);
+
+  return (
+    <div data-gamepad-nav className="absolute inset-0 bg-slate-950/95 flex flex-col z-30 backdrop-blur-md p-6 font-mono">
+      <div className="flex justify-between items-center mb-4 border-b border-cyan-500/30 pb-3">
+        <h2 className="text-2xl font-bold text-cyan-400 flex items-center gap-2 font-display"><Trophy /> LEADERBOARD</h2>
+        <div className="flex gap-2 text-xs">
+          <button onClick={onExport} className="px-3 py-1 border border-slate-700 text-slate-400 hover:text-cyan-300 flex items-center gap-1">
+            <Download size={12}/> EXPORT
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} className="px-3 py-1 border border-slate-700 text-slate-400 hover:text-cyan-300 flex items-center gap-1">
+            <Upload size={12}/> MERGE
+          </button>
+          <button onClick={onClose} className="px-3 py-1 border border-slate-700 hover:border-red-500 text-slate-400 hover:text-red-400 flex items-center gap-1">
+            <X size={12}/> CLOSE
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImport(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+
+      {selected ? (
+        /* Run Breakdown */
+        <div className="flex-1 overflow-y-auto text-sm">
+          <button onClick={() => setSelectedId(null)} className="text-xs text-slate-400 hover:text-cyan-300 flex items-center gap-1 mb-4">
+            <ChevronLeft size={14}/> BACK TO RANKINGS
+          </button>
+          <div className="text-xl text-cyan-300 font-bold">{selected.callsign} <span className="text-yellow-400">• {selected.rank}</span></div>
+          <div className="text-xs text-slate-500 mb-4">
+            {modeName(selected.script)} • SEED {selected.seed} • {new Date(selected.finishedAt).toLocaleString()}
+          </div>
+          <div className="grid grid-cols-2 gap-x-8 gap-y-2 text-slate-300">
+            {([
+              ['Score', selected.stats.score],
+              ['Credits Banked', selected.stats.credits],
+              ['Wave Reached', selected.stats.waveName],
+              ['Enemies Destroyed', selected.stats.enemiesDestroyed],
+              ['Shots Fired', selected.stats.shotsFired],
+              ['Shots Hit', selected.stats.shotsHit],
+              ['Accuracy', `${accuracyOf(selected.stats)}%`],
+              ['Time Survived', `${Math.floor(selected.stats.timeSurvived)}s`],
+              ['Weapon Level', `MK-${selected.stats.weaponLevel}`],
+              ['Secondary', selected.stats.secondary ? `${selected.stats.secondary.name} x${selected.stats.secondary.ammo}` : '---']
+            ] as [string, string | number][]).map(([label, value]) => (
+              <div key={label} className="flex justify-between border-b border-slate-800 py-1">
+                <span className="text-slate-500">{label}</span>
+                <span>{value}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <>
+          {/* Filters */}
+          <div className="flex flex-wrap gap-2 mb-3 text-[10px]">
+            {modes.map(m => (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                className={`px-2 py-1 border rounded ${mode === m ? 'border-cyan-500 text-cyan-300' : 'border-slate-700 text-slate-500'}`}
+              >
+                {m === ALL_MODES ? 'ALL MODES' : modeName(m)}
+              </button>
+            ))}
+          </div>
+
+          {/* Rankings */}
+          <div className="flex-1 overflow-y-auto scrollbar-thin">
+            <table className="w-full text-xs">
+              <thead className="text-slate-500 sticky top-0 bg-slate-950">
+                <tr>
+                  <th className="text-left py-1">#</th>
+                  <th className="text-left">PILOT</th>
+                  {LEADERBOARD_SORTS.map(key => (
+                    <th key={key} className="text-right">
+                      <button onClick={() => setSort(key)} className={sort === key ? 'text-cyan-300' : 'hover:text-slate-300'}>
+                        {SORT_LABEL[key]}{sort === key ? ' ▼' : ''}
+                      </button>
+                    </th>
+                  ))}
+                  <th className="text-right">MK</th>
+                  <th className="text-right">SEED</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visible.map((entry, i) => (
+                  <tr
+                    key={entry.id}
+                    onClick={() => setSelectedId(entry.id)}
+                    className="text-slate-300 hover:bg-cyan-950/40 cursor-pointer border-b border-slate-800/60"
+                  >
+                    <td className="py-1 text-slate-500">{i + 1}</td>
+                    <td className="text-cyan-300">{entry.callsign}</td>
+                    <td className="text-right text-yellow-400">{entry.stats.score}</td>
+                    <td className="text-right">{entry.stats.waveName}</td>
+                    <td className="text-right">{entry.stats.enemiesDestroyed}</td>
+                    <td className="text-right">{accuracyOf(entry.stats)}%</td>
+                    <td className="text-right">{Math.floor(entry.stats.timeSurvived)}s</td>
+                    <td className="text-right text-slate-500">{formatDate(entry.finishedAt)}</td>
+                    <td className="text-right">{entry.stats.weaponLevel}</td>
+                    <td className="text-right text-slate-500">{entry.seed}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {visible.length === 0 && (
+              <p className="text-center text-slate-600 text-xs mt-8">NO SORTIES ON RECORD</p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,110 @@
+import { Player, PlayerWeapon } from '../types';
+import { ArmoryItemId } from './armory';
+import { GameEvent } from './events';
+
+/**
+ * Per-run combat ledger.
+ *
+ * Owned by the simulation and kept up to date as the run plays out: kills,
+ * damage taken, purchases and waves are folded in from its own `GameEvent`s,
+ * while shots, hits and the hull timeline are recorded where they happen.
+ * The ledger is plain data inside the snapshot, so a resumed run keeps it
+ * and a watched replay rebuilds it exactly. The after-action report is drawn
+ * from it.
+ */
+
+export const TIMELINE_INTERVAL_TICKS = 60; // One hull sample per second of logic time
+
+export interface ShotTally {
+  fired: number;
+  hit: number; // Rounds that connected at least once; a piercing round counts once
+}
+
+export interface TimelineSample {
+  time: number; // Seconds
+  hp: number;
+  shield: number;
+}
+
+export interface WaveRecord {
+  wave: number;
+  name: string;
+  startedAt: number; // Seconds
+  clearedAt: number | null;
+  kills: number;
+  damageTaken: number;
+}
+
+export interface CombatLedger {
+  damageDealt: Partial<Record<PlayerWeapon, number>>; // Shield and hull actually removed, no overkill
+  damageTaken: Record<string, number>; // By attacker archetype
+  collisionDamage: number; // Share of `damageTaken` from ramming
+  kills: Record<string, number>; // By archetype
+  killsByWeapon: Partial<Record<PlayerWeapon, number>>;
+  shots: Record<string, ShotTally>; // By `shotKey`
+  creditsEarned: number;
+  creditsSpent: Partial<Record<ArmoryItemId, number>>;
+  timeline: TimelineSample[];
+  waves: WaveRecord[];
+}
+
+export const createLedger = (): CombatLedger => ({
+  damageDealt: {}, damageTaken: {}, collisionDamage: 0, kills: {}, killsByWeapon: {},
+  shots: {}, creditsEarned: 0, creditsSpent: {}, timeline: [], waves: []
+});
+
+// Primary rounds are tallied per weapon level (MK-1, MK-2...), secondaries per weapon
+export const shotKey = (weapon: PlayerWeapon, weaponLevel: number) =>
+  weapon === 'PRIMARY' ? `MK-${weaponLevel}` : weapon;
+
+const seconds = (time: number) => Math.round(time) / 1000;
+
+const add = <K extends string>(record: Partial<Record<K, number>>, key: K, amount: number) => {
+  record[key] = (record[key] || 0) + amount;
+};
+
+export const totalOf = (record: Partial<Record<string, number>>) =>
+  Object.values(record).reduce<number>((sum, value) => sum + (value || 0), 0);
+
+export const recordEvent = (ledger: CombatLedger, event: GameEvent, time: number) => {
+  const wave = ledger.waves[ledger.waves.length - 1];
+  switch (event.type) {
+    case 'WAVE_STARTED':
+      ledger.waves.push({ wave: event.wave, name: event.name, startedAt: seconds(time), clearedAt: null, kills: 0, damageTaken: 0 });
+      break;
+    case 'WAVE_CLEARED':
+      if (wave) wave.clearedAt = seconds(time);
+      break;
+    case 'ENEMY_KILLED':
+      add(ledger.kills, event.archetype, 1);
+      add(ledger.killsByWeapon, event.weapon, 1);
+      ledger.creditsEarned += event.score;
+      if (wave) wave.kills++;
+      break;
+    case 'DAMAGE_TAKEN':
+      add(ledger.damageTaken, event.attacker, event.amount);
+      if (event.source === 'COLLISION') ledger.collisionDamage += event.amount;
+      if (wave) wave.damageTaken += event.amount;
+      break;
+    case 'PURCHASE_MADE':
+      add(ledger.creditsSpent, event.item, event.price);
+      break;
+  }
+};
+
+export const recordShots = (ledger: CombatLedger, key: string, fired: number) => {
+  const tally = ledger.shots[key] || (ledger.shots[key] = { fired: 0, hit: 0 });
+  tally.fired += fired;
+};
+
+export const recordHit = (ledger: CombatLedger, key: string) => {
+  if (ledger.shots[key]) ledger.shots[key].hit++;
+};
+
+export const recordDamage = (ledger: CombatLedger, weapon: PlayerWeapon, amount: number) => {
+  add(ledger.damageDealt, weapon, amount);
+};
+
+export const sampleTimeline = (ledger: CombatLedger, time: number, player: Player) => {
+  ledger.timeline.push({ time: seconds(time), hp: Math.round(Math.max(0, player.hp)), shield: Math.round(player.shield) });
+};
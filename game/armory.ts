@@ -0,0 +1,116 @@
+import { SecondaryType } from '../types';
+import armoryData from './armory.json';
+import { SECONDARY_WEAPONS } from './weapons';
+import { isRecord, fieldOf } from './guards';
+
+/**
+ * Field Armory catalog.
+ *
+ * Every purchasable item lives in `armory.json` with its price curve, stock
+ * limit and prerequisites. The simulation validates purchases with
+ * `armoryOffer` and applies the effects; the shop overlay renders the same
+ * offers, so prices and availability are defined exactly once.
+ */
+
+export type ArmoryItemId =
+  | 'WEAPON' | 'FIRE_RATE'
+  | 'REPAIR' | 'HULL_PLATING' | 'SHIELD_CAPACITY' | 'SHIELD_REGEN'
+  | 'MAGNET'
+  | SecondaryType | 'SECONDARY_AMMO';
+
+export type ArmoryCategory = 'PRIMARY' | 'DEFENSE' | 'SYSTEMS' | 'SECONDARY';
+
+// Price of the next unit: (base + step * owned) * growth ^ owned, rounded to 50 CR
+export interface PriceCurve {
+  base: number;
+  step?: number;
+  growth?: number;
+}
+
+export interface ArmoryItem {
+  id: ArmoryItemId;
+  name: string; // Secondary weapons take their name from weapons.json
+  description: string;
+  category: ArmoryCategory;
+  price: PriceCurve;
+  stock?: number; // Most a run can own; unlimited when absent
+  amount?: number; // Effect size per unit, interpreted by the simulation
+  requires?: { item: ArmoryItemId; count: number }[];
+}
+
+// Run state an offer depends on
+export interface ArmoryContext {
+  credits: number;
+  owned: (id: ArmoryItemId) => number;
+  hullDamaged: boolean;
+  secondary: SecondaryType | null;
+  secondaryFull: boolean;
+}
+
+export interface ArmoryOffer {
+  item: ArmoryItem;
+  price: number;
+  owned: number;
+  available: boolean;
+  reason?: string; // Why it can't be bought right now
+}
+
+const ITEM_IDS: ArmoryItemId[] = [
+  'WEAPON', 'FIRE_RATE', 'REPAIR', 'HULL_PLATING', 'SHIELD_CAPACITY', 'SHIELD_REGEN',
+  'MAGNET', 'MISSILES', 'BOMB', 'BEAM', 'SECONDARY_AMMO'
+];
+const CATEGORIES: ArmoryCategory[] = ['PRIMARY', 'DEFENSE', 'SYSTEMS', 'SECONDARY'];
+
+export const isSecondaryItem = (id: ArmoryItemId): id is SecondaryType => id in SECONDARY_WEAPONS;
+
+export const priceOf = (item: ArmoryItem, owned: number) => {
+  const { base, step = 0, growth = 1 } = item.price;
+  return Math.round((base + step * owned) * Math.pow(growth, owned) / 50) * 50;
+};
+
+export const armoryOffer = (item: ArmoryItem, context: ArmoryContext): ArmoryOffer => {
+  const owned = context.owned(item.id);
+  const price = priceOf(item, owned);
+  const deny = (reason: string): ArmoryOffer => ({ item, price, owned, available: false, reason });
+
+  if (item.stock !== undefined && owned >= item.stock) return deny('SOLD OUT');
+  const missing = (item.requires || []).find(req => context.owned(req.item) < req.count);
+  if (missing) return deny(`REQUIRES ${ARMORY_ITEMS[missing.item]!.name.toUpperCase()}`);
+  if (item.id === 'REPAIR' && !context.hullDamaged) return deny('HULL INTACT');
+  if (isSecondaryItem(item.id) && context.secondary === item.id && context.secondaryFull) return deny('FULLY LOADED');
+  if (item.id === 'SECONDARY_AMMO' && !context.secondary) return deny('NO SECONDARY');
+  if (context.credits < price) return deny('INSUFFICIENT CREDITS');
+
+  return { item, price, owned, available: true };
+};
+
+const fail: (id: string, message: string) => never = (id, message) => {
+  throw new Error(`Armory item "${id}": ${message}`);
+};
+
+// Validates raw JSON into the catalog, keeping file order for display
+export const loadArmory = (data: unknown): Partial<Record<ArmoryItemId, ArmoryItem>> => {
+  if (!isRecord(data)) throw new Error('Armory catalog must be an object keyed by item id');
+
+  const catalog: Partial<Record<ArmoryItemId, ArmoryItem>> = {};
+  Object.entries(data).forEach(([id, raw]) => {
+    if (!ITEM_IDS.includes(id as ArmoryItemId)) fail(id, 'unknown item id');
+    if (!isRecord(raw)) fail(id, 'definition must be an object');
+    if (!CATEGORIES.includes(raw.category as ArmoryCategory)) fail(id, `unknown category "${raw.category}"`);
+    if (typeof fieldOf(raw.price, 'base') !== 'number') fail(id, 'price.base must be a number');
+    const requires: unknown = raw.requires ?? [];
+    if (!Array.isArray(requires)) fail(id, 'requires must be an array');
+    (requires as unknown[]).forEach(req => {
+      const item = fieldOf(req, 'item');
+      if (typeof item !== 'string' || !(item in data)) fail(id, `requires "${item}", which is not in the catalog`);
+    });
+
+    const name = isSecondaryItem(id as ArmoryItemId) ? SECONDARY_WEAPONS[id as SecondaryType].name : raw.name;
+    if (typeof name !== 'string') fail(id, 'needs a name');
+    catalog[id as ArmoryItemId] = { ...raw, id, name } as ArmoryItem;
+  });
+  return catalog;
+};
+
+export const ARMORY_ITEMS = loadArmory(armoryData);
+export const ARMORY_CATALOG = Object.values(ARMORY_ITEMS) as ArmoryItem[];
@@ -0,0 +1,326 @@
+import { GameEvent, Unsubscribe } from './events';
+import { isRecord } from './guards';
+
+/**
+ * Procedural audio through Web Audio.
+ *
+ * Nothing is sampled: effects and music are synthesised from oscillators and
+ * filtered noise. One-shot effects follow `GameEvent`s (`play`); the
+ * continuous cues (mine beeps, the lock-on alarm behind the HUD warning and
+ * the music) follow the `AudioScene` the canvas reports every frame
+ * (`update`). The music is a step sequencer scheduled a little ahead of the
+ * audio clock; layers join, the tempo rises and the filter opens as the
+ * waves climb, a boss arrives or the hull runs low. Effects and music have
+ * their own buses into a master gain, set from `MixerSettings`. Browsers
+ * only start audio after a user gesture, so `attach` creates the context on
+ * the first key or pointer press.
+ */
+
+export interface MixerSettings {
+  master: number; // 0-1
+  sfx: number;
+  music: number;
+  muted: boolean;
+}
+
+export const DEFAULT_MIXER: MixerSettings = { master: 0.8, sfx: 0.8, music: 0.5, muted: false };
+
+export interface AudioScene {
+  playing: boolean; // Music and alarms only run mid-run
+  wave: number;
+  hull: number; // Fraction of max hp
+  boss: boolean;
+  locked: boolean; // A lock-on enemy is on the field
+  mines: number;
+}
+
+const volume = (value: unknown, fallback: number) =>
+  typeof value === 'number' && isFinite(value) ? Math.max(0, Math.min(1, value)) : fallback;
+
+export const normalizeMixer = (data: unknown): MixerSettings => {
+  const stored = isRecord(data) ? data : {};
+  return {
+    master: volume(stored.master, DEFAULT_MIXER.master),
+    sfx: volume(stored.sfx, DEFAULT_MIXER.sfx),
+    music: volume(stored.music, DEFAULT_MIXER.music),
+    muted: typeof stored.muted === 'boolean' ? stored.muted : DEFAULT_MIXER.muted
+  };
+};
+
+const LOOKAHEAD_S = 0.12; // Music is scheduled this far ahead of the audio clock
+const LOW_HULL = 0.35;
+const SILENCE = 0.0001; // Exponential ramps can't reach zero
+
+// Shortest gap between two plays of one sound, so a busy frame doesn't stack dozens of voices
+const MIN_GAP_S: Record<string, number> = { PRIMARY: 0.04, SPARK: 0.05, BLAST: 0.04, BOOM: 0.08 };
+
+// A minor: one bass root per bar and the chord tones over it, as ratios
+const BASS_ROOTS = [55, 43.65, 65.41, 49];
+const CHORD = [1, 1.189, 1.498, 2];
+const BASS_STEPS = [0, 3, 6, 8, 11, 14];
+
+interface ToneOptions {
+  type: OscillatorType;
+  from: number; // Hz
+  to?: number;
+  duration: number; // s
+  gain: number;
+  at?: number;
+  music?: boolean;
+}
+
+interface NoiseOptions {
+  filter: BiquadFilterType;
+  from: number; // Cutoff Hz
+  to?: number;
+  duration: number;
+  gain: number;
+  at?: number;
+  music?: boolean;
+}
+
+export class AudioEngine {
+  private ctx: AudioContext | null = null;
+  private master: GainNode | null = null;
+  private sfxBus: GainNode | null = null;
+  private musicBus: GainNode | null = null;
+  private noiseBuffer: AudioBuffer | null = null;
+  private mixer: MixerSettings = DEFAULT_MIXER;
+  private lastPlayed: Record<string, number> = {};
+  private nextStepAt = 0;
+  private step = 0;
+  private nextMineBeepAt = 0;
+  private nextLockToneAt = 0;
+  private lockTone = 0;
+
+  // Creates or resumes the context on the first gesture
+  attach(): Unsubscribe {
+    const unlock = () => {
+      this.start();
+      if (this.ctx?.state === 'suspended') this.ctx.resume().catch(() => {});
+    };
+    window.addEventListener('keydown', unlock, true);
+    window.addEventListener('pointerdown', unlock, true);
+    return () => {
+      window.removeEventListener('keydown', unlock, true);
+      window.removeEventListener('pointerdown', unlock, true);
+    };
+  }
+
+  setMixer(settings: MixerSettings) {
+    this.mixer = settings;
+    if (!this.ctx || !this.master || !this.sfxBus || !this.musicBus) return;
+    const t = this.ctx.currentTime;
+    this.master.gain.setTargetAtTime(settings.muted ? 0 : settings.master, t, 0.02);
+    this.sfxBus.gain.setTargetAtTime(settings.sfx, t, 0.02);
+    this.musicBus.gain.setTargetAtTime(settings.music, t, 0.02);
+  }
+
+  play = (event: GameEvent) => {
+    if (!this.ctx || this.mixer.muted) return;
+    switch (event.type) {
+      case 'WEAPON_FIRED':
+        if (event.weapon === 'PRIMARY') this.blaster(event.level);
+        else if (event.weapon === 'MISSILES') this.missileLaunch();
+        else if (event.weapon === 'BEAM') this.beam();
+        break;
+      case 'DAMAGE_TAKEN':
+        if (event.hull <= 0) this.explosion(true, 40);
+        else if (event.hullDamage > 0) this.hullHit(event.hullDamage);
+        else this.shieldSpark();
+        break;
+      case 'EXPLOSION':
+        this.explosion(event.heavy, event.size);
+        break;
+      case 'BOMB_DETONATED':
+        this.explosion(true, 60);
+        break;
+      case 'POWERUP_COLLECTED':
+        [523, 659, 784, 1047].forEach((freq, i) => this.tone({ type: 'triangle', from: freq, duration: 0.1, gain: 0.12, at: this.now() + i * 0.06 }));
+        break;
+      case 'BOSS_WARNING':
+        for (let i = 0; i < 6; i++) this.tone({ type: 'sawtooth', from: i % 2 ? 660 : 440, duration: 0.24, gain: 0.08, at: this.now() + i * 0.25 });
+        break;
+      case 'WAVE_CLEARED':
+        this.tone({ type: 'sine', from: 784, duration: 0.2, gain: 0.1 });
+        this.tone({ type: 'sine', from: 1175, duration: 0.35, gain: 0.1, at: this.now() + 0.12 });
+        break;
+    }
+  };
+
+  // Call once per frame
+  update(scene: AudioScene) {
+    const ctx = this.ctx;
+    if (!ctx || ctx.state !== 'running') return;
+    const now = ctx.currentTime;
+
+    if (!scene.playing || this.mixer.muted) {
+      this.nextStepAt = 0; // The pattern starts over when play resumes
+      return;
+    }
+
+    // Proximity beeps quicken as mines pile up
+    if (scene.mines > 0 && now >= this.nextMineBeepAt) {
+      this.tone({ type: 'sine', from: 1320, duration: 0.05, gain: 0.06 });
+      this.nextMineBeepAt = now + Math.max(0.25, 0.9 - scene.mines * 0.12);
+    }
+
+    // Two-tone alarm for as long as the HUD shows the lock-on warning
+    if (scene.locked && now >= this.nextLockToneAt) {
+      this.tone({ type: 'square', from: this.lockTone++ % 2 ? 660 : 880, duration: 0.12, gain: 0.05 });
+      this.nextLockToneAt = now + 0.25;
+    }
+
+    this.scheduleMusic(scene, now);
+  }
+
+  private start() {
+    if (this.ctx) return;
+    const AudioContextClass = window.AudioContext || (window as Window & { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+    if (!AudioContextClass) return;
+
+    const ctx: AudioContext = new AudioContextClass();
+    this.ctx = ctx;
+    this.master = ctx.createGain();
+    this.sfxBus = ctx.createGain();
+    this.musicBus = ctx.createGain();
+    this.sfxBus.connect(this.master);
+    this.musicBus.connect(this.master);
+    this.master.connect(ctx.destination);
+
+    // One second of white noise, reused by every noise voice
+    this.noiseBuffer = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate);
+    const data = this.noiseBuffer.getChannelData(0);
+    for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+
+    this.setMixer(this.mixer);
+  }
+
+  private now() {
+    return this.ctx ? this.ctx.currentTime : 0;
+  }
+
+  // False if the same sound played too recently
+  private claim(sound: string): boolean {
+    const now = this.now();
+    if (now - (this.lastPlayed[sound] ?? -1) < (MIN_GAP_S[sound] ?? 0)) return false;
+    this.lastPlayed[sound] = now;
+    return true;
+  }
+
+  private envelope(gain: number, at: number, duration: number, music: boolean): GainNode {
+    const ctx = this.ctx!;
+    const env = ctx.createGain();
+    env.gain.setValueAtTime(SILENCE, at);
+    env.gain.linearRampToValueAtTime(gain, at + 0.005);
+    env.gain.exponentialRampToValueAtTime(SILENCE, at + duration);
+    env.connect(music ? this.musicBus! : this.sfxBus!);
+    return env;
+  }
+
+  private tone({ type, from, to, duration, gain, at = this.now(), music = false }: ToneOptions) {
+    const ctx = this.ctx;
+    if (!ctx) return;
+    const osc = ctx.createOscillator();
+    osc.type = type;
+    osc.frequency.setValueAtTime(from, at);
+    if (to) osc.frequency.exponentialRampToValueAtTime(to, at + duration);
+    osc.connect(this.envelope(gain, at, duration, music));
+    osc.start(at);
+    osc.stop(at + duration + 0.02);
+  }
+
+  private noise({ filter, from, to, duration, gain, at = this.now(), music = false }: NoiseOptions) {
+    const ctx = this.ctx;
+    if (!ctx || !this.noiseBuffer) return;
+    const source = ctx.createBufferSource();
+    source.buffer = this.noiseBuffer;
+    source.loop = true;
+    const biquad = ctx.createBiquadFilter();
+    biquad.type = filter;
+    biquad.frequency.setValueAtTime(from, at);
+    if (to) biquad.frequency.exponentialRampToValueAtTime(to, at + duration);
+    source.connect(biquad).connect(this.envelope(gain, at, duration, music));
+    source.start(at, Math.random() * 0.5);
+    source.stop(at + duration + 0.02);
+  }
+
+  // Higher weapon levels fire brighter, thicker shots
+  private blaster(level: number) {
+    if (!this.claim('PRIMARY')) return;
+    const base = 440 + level * 110;
+    this.tone({ type: 'square', from: base * 2, to: base / 2, duration: 0.09, gain: 0.05 });
+    if (level >= 3) this.tone({ type: 'sawtooth', from: base * 3, to: base * 0.75, duration: 0.07, gain: 0.03 });
+  }
+
+  private missileLaunch() {
+    this.noise({ filter: 'bandpass', from: 400, to: 2400, duration: 0.35, gain: 0.15 });
+    this.tone({ type: 'sawtooth', from: 120, to: 60, duration: 0.25, gain: 0.06 });
+  }
+
+  private beam() {
+    this.tone({ type: 'sawtooth', from: 180, to: 1400, duration: 0.4, gain: 0.1 });
+    this.noise({ filter: 'highpass', from: 3000, duration: 0.4, gain: 0.05 });
+  }
+
+  private shieldSpark() {
+    if (!this.claim('SPARK')) return;
+    this.tone({ type: 'sine', from: 2400, to: 1200, duration: 0.12, gain: 0.1 });
+    this.noise({ filter: 'highpass', from: 5000, duration: 0.08, gain: 0.08 });
+  }
+
+  private hullHit(damage: number) {
+    const weight = Math.min(1, damage / 30);
+    this.tone({ type: 'triangle', from: 140, to: 45, duration: 0.25, gain: 0.15 + 0.15 * weight });
+    this.noise({ filter: 'lowpass', from: 900, to: 150, duration: 0.3, gain: 0.15 + 0.15 * weight });
+  }
+
+  // Heavy blasts rumble long and low; light ones are a short crack. `size` scales the volume
+  private explosion(heavy: boolean, size: number) {
+    const scale = Math.min(1, 0.3 + size / 30);
+    if (heavy) {
+      if (!this.claim('BOOM')) return;
+      const duration = 0.5 + Math.min(0.7, size * 0.015);
+      this.noise({ filter: 'lowpass', from: 1400, to: 60, duration, gain: 0.35 * scale });
+      this.tone({ type: 'sine', from: 90, to: 30, duration, gain: 0.25 * scale });
+    } else {
+      if (!this.claim('BLAST')) return;
+      this.noise({ filter: 'bandpass', from: 2200, to: 500, duration: 0.12, gain: 0.12 * scale });
+    }
+  }
+
+  private scheduleMusic(scene: AudioScene, now: number) {
+    const lowHull = scene.hull < LOW_HULL;
+    const intensity = Math.min(1, (scene.wave - 1) / 7 + (scene.boss ? 0.35 : 0) + (lowHull ? 0.25 : 0));
+    const stepLength = 60 / (96 + 48 * intensity) / 4; // Sixteenth notes
+
+    if (this.nextStepAt < now) {
+      this.nextStepAt = now + 0.05;
+      this.step = 0;
+    }
+
+    while (this.nextStepAt < now + LOOKAHEAD_S) {
+      const at = this.nextStepAt;
+      const beat = this.step % 16;
+      const root = BASS_ROOTS[Math.floor(this.step / 16) % BASS_ROOTS.length];
+
+      // Kick on the beat, always
+      if (beat % 4 === 0) this.tone({ type: 'sine', from: 130, to: 40, duration: 0.15, gain: 0.35, at, music: true });
+      if (BASS_STEPS.includes(beat)) {
+        this.tone({ type: 'sawtooth', from: root, duration: stepLength * 1.6, gain: 0.12 + 0.06 * intensity, at, music: true });
+      }
+      // Off-beat hats from the second wave
+      if (intensity > 0.1 && beat % 2 === 1) this.noise({ filter: 'highpass', from: 7000, duration: 0.03, gain: 0.04, at, music: true });
+      if (intensity > 0.4 && (beat === 4 || beat === 12)) this.noise({ filter: 'bandpass', from: 1800, duration: 0.12, gain: 0.12, at, music: true });
+      // Arpeggio lead for late waves and bosses
+      if (intensity > 0.65) {
+        this.tone({ type: 'square', from: root * 8 * CHORD[this.step % CHORD.length], duration: stepLength * 0.9, gain: 0.03, at, music: true });
+      }
+      // Heartbeat while the hull is failing
+      if (lowHull && (beat === 0 || beat === 2)) this.tone({ type: 'sine', from: 70, to: 50, duration: 0.12, gain: 0.3, at, music: true });
+
+      this.nextStepAt += stepLength;
+      this.step++;
+    }
+  }
+}
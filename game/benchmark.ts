@@ -0,0 +1,83 @@
+import { Simulation, CANVAS_WIDTH, CANVAS_HEIGHT, DEFAULT_POOL_CAPS } from './simulation';
+import { ENEMY_ARCHETYPES, spawnOrder } from './enemies';
+import { InputRouter, BotSource } from './input';
+
+export interface BenchmarkOptions {
+  enemies: number;
+  projectiles: number;
+  ticks: number;
+  seed: number;
+}
+
+export interface BenchmarkResult {
+  ticks: number;
+  enemies: number;
+  projectiles: number;
+  avgStepMs: number;
+  p95StepMs: number;
+  maxStepMs: number;
+}
+
+export const DEFAULT_BENCHMARK: BenchmarkOptions = { enemies: 300, projectiles: 600, ticks: 240, seed: 1 };
+
+const STRESS_TYPES = spawnOrder(ENEMY_ARCHETYPES).map(a => a.id);
+
+/**
+ * Stress test for the simulation step. Keeps the field topped up with
+ * `enemies` hostiles and `projectiles` player bullets at max weapon level,
+ * with an invulnerable player flown by the scripted bot, and times every step.
+ */
+export const runBenchmark = (options: BenchmarkOptions = DEFAULT_BENCHMARK): BenchmarkResult => {
+  // Pools sized for the requested load plus headroom for enemy fire
+  const sim = new Simulation(options.seed, {
+    caps: {
+      enemies: options.enemies,
+      projectiles: options.projectiles * 2,
+      particles: DEFAULT_POOL_CAPS.particles
+    }
+  });
+  sim.reset();
+  sim.player.invulnerableUntil = Infinity;
+  sim.player.weaponLevel = 4;
+  sim.stats.wave = 5;
+
+  let spawned = 0;
+  const topUp = () => {
+    while (sim.enemies.length < options.enemies) {
+      const type = STRESS_TYPES[spawned++ % STRESS_TYPES.length];
+      const enemy = sim.spawnEnemy(type, (spawned * 37) % CANVAS_WIDTH, (spawned * 53) % (CANVAS_HEIGHT / 2));
+      if (!enemy) break;
+      enemy.hp = Infinity; // Keep the load constant
+    }
+    let bullets = sim.projectiles.filter(p => p.owner === 'player').length;
+    while (bullets++ < options.projectiles) {
+      sim.spawnProjectile({
+        pos: { x: (bullets * 13) % CANVAS_WIDTH, y: CANVAS_HEIGHT - (bullets * 7) % CANVAS_HEIGHT },
+        vel: { x: 0, y: -12 },
+        width: 4, height: 12, color: '#f0f9ff',
+        damage: 0, owner: 'player'
+      });
+    }
+  };
+
+  const samples: number[] = [];
+  const pilot = new InputRouter([new BotSource(sim)]);
+  for (let i = 0; i < options.ticks; i++) {
+    topUp();
+    const input = pilot.command(sim.time);
+    const start = performance.now();
+    sim.step(input);
+    samples.push(performance.now() - start);
+    sim.drainEvents();
+  }
+
+  const sorted = [...samples].sort((a, b) => a - b);
+  return {
+    ticks: options.ticks,
+    enemies: options.enemies,
+    projectiles: options.projectiles,
+    avgStepMs: samples.reduce((sum, s) => sum + s, 0) / samples.length,
+    p95StepMs: sorted[Math.floor(sorted.length * 0.95)],
+    maxStepMs: sorted[sorted.length - 1]
+  };
+};
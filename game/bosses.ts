@@ -0,0 +1,97 @@
+import { Enemy, Position } from '../types';
+import bossData from './bosses.json';
+import { ArchetypeRegistry, EnemyWeapon, ENEMY_ARCHETYPES } from './enemies';
+import { isRecord, isRecordArray, hasNumbers } from './guards';
+
+/**
+ * Boss encounters.
+ *
+ * A boss is a core enemy plus destructible parts bolted on at fixed offsets,
+ * all using `anchored` archetypes so the simulation positions them instead
+ * of their own movement rules. Parts fire their archetype weapon; the core
+ * fires the weapon of its current phase. Phases advance as the core's HP
+ * fraction drops below each phase's `hpBelow`. While any part with
+ * `shieldsCore` survives, the core cannot be damaged.
+ */
+
+export interface BossPartDefinition {
+  archetype: string;
+  offset: Position; // From the core's centre
+  shieldsCore?: boolean;
+}
+
+export interface BossPhase {
+  name: string;
+  hpBelow: number; // Core HP fraction at which this phase begins; the first phase uses 1
+  event: string; // Raised when the phase begins
+  sway: { frequency: number; amplitude: number };
+  weapon: EnemyWeapon;
+}
+
+export interface BossDefinition {
+  id: string;
+  name: string;
+  core: string; // Archetype id
+  entry: { y: number; speed: number }; // Descends to `y` before fighting
+  parts: BossPartDefinition[];
+  phases: BossPhase[];
+}
+
+export type BossRegistry = Record<string, BossDefinition>;
+
+// Live encounter, owned by the simulation
+export interface BossState {
+  definition: BossDefinition;
+  core: Enemy | null; // Null until it arrives
+  maxHp: number;
+  parts: { enemy: Enemy; offset: Position; shieldsCore: boolean }[]; // Surviving parts only
+  phase: number;
+  swayAngle: number;
+  arrivesAt: number;
+  defeated: boolean;
+}
+
+// Banner time between the warning and the boss entering
+export const BOSS_WARNING_MS = 3000;
+
+const fail: (id: string, message: string) => never = (id, message) => {
+  throw new Error(`Boss "${id}": ${message}`);
+};
+
+// Validates raw JSON into a registry; core and part archetypes must exist and be anchored
+export const loadBosses = (data: unknown, archetypes: ArchetypeRegistry = ENEMY_ARCHETYPES): BossRegistry => {
+  if (!isRecord(data)) throw new Error('Bosses must be an object keyed by id');
+
+  const checkAnchored = (id: string, archetype: unknown) => {
+    if (typeof archetype !== 'string' || !archetypes[archetype]) fail(id, `unknown archetype "${archetype}"`);
+    if (archetypes[archetype].movement.kind !== 'anchored') fail(id, `archetype "${archetype}" must use anchored movement`);
+  };
+
+  const registry: BossRegistry = {};
+  Object.entries(data).forEach(([id, raw]) => {
+    if (!isRecord(raw) || typeof raw.name !== 'string') fail(id, 'needs a name');
+    checkAnchored(id, raw.core);
+    if (!hasNumbers(raw.entry, 'y', 'speed')) fail(id, 'entry needs y and speed');
+    if (!isRecordArray(raw.parts)) fail(id, 'parts must be an array');
+    raw.parts.forEach(part => {
+      checkAnchored(id, part.archetype);
+      if (!hasNumbers(part.offset, 'x', 'y')) fail(id, 'parts need an offset');
+    });
+    if (!isRecordArray(raw.phases) || raw.phases.length === 0) fail(id, 'phases must be a non-empty array');
+    raw.phases.forEach((phase, i) => {
+      if (typeof phase.hpBelow !== 'number' || typeof phase.event !== 'string' || !phase.weapon) {
+        fail(id, `phase ${i + 1} needs hpBelow, event and weapon`);
+      }
+    });
+
+    registry[id] = {
+      ...raw,
+      id,
+      // Highest threshold first, so phases advance in order as HP drops
+      phases: ([...raw.phases] as unknown as BossPhase[]).sort((a, b) => b.hpBelow - a.hpBelow)
+    } as BossDefinition;
+  });
+  return registry;
+};
+
+export const BOSSES: BossRegistry = loadBosses(bossData);
@@ -0,0 +1,129 @@
+import { FlightAction } from './simulation';
+import { isRecord } from './guards';
+
+/**
+ * Keyboard bindings.
+ *
+ * Every control is an action bound to one or more `KeyboardEvent.code`
+ * values. Flight actions are what the simulation (and so the replay)
+ * consumes; the rest are handled by the app. A key drives at most one
+ * action: `findConflict` reports the current owner so the settings screen
+ * can ask before moving it. Bindings are saved with the pilot profile.
+ */
+
+export type ControlAction = FlightAction | 'PAUSE' | 'ARMORY' | 'MUTE';
+
+export type KeyBindings = Record<ControlAction, string[]>;
+
+export const MAX_BINDINGS = 3; // Per action
+
+// Settings screen order
+export const CONTROL_ACTIONS: ControlAction[] = ['MOVE_UP', 'MOVE_DOWN', 'MOVE_LEFT', 'MOVE_RIGHT', 'FOCUS', 'SECONDARY', 'ARMORY', 'PAUSE', 'MUTE'];
+
+export const CONTROL_LABELS: Record<ControlAction, string> = {
+  MOVE_UP: 'Move Up',
+  MOVE_DOWN: 'Move Down',
+  MOVE_LEFT: 'Move Left',
+  MOVE_RIGHT: 'Move Right',
+  FOCUS: 'Focus (Slow Move)',
+  SECONDARY: 'Secondary Fire',
+  ARMORY: 'Armory',
+  PAUSE: 'Pause',
+  MUTE: 'Mute Audio'
+};
+
+export const MOVE_ACTIONS: ControlAction[] = ['MOVE_UP', 'MOVE_DOWN', 'MOVE_LEFT', 'MOVE_RIGHT'];
+
+export const DEFAULT_BINDINGS: KeyBindings = {
+  MOVE_UP: ['KeyW', 'ArrowUp'],
+  MOVE_DOWN: ['KeyS', 'ArrowDown'],
+  MOVE_LEFT: ['KeyA', 'ArrowLeft'],
+  MOVE_RIGHT: ['KeyD', 'ArrowRight'],
+  FOCUS: ['ShiftLeft', 'ShiftRight'],
+  SECONDARY: ['Space'],
+  ARMORY: ['KeyB'],
+  PAUSE: ['KeyP'],
+  MUTE: ['KeyM']
+};
+
+// Cancels a rebind in progress, so it can't be bound itself
+export const CANCEL_KEY = 'Escape';
+
+const KEY_SYMBOLS: Record<string, string> = {
+  ArrowUp: '↑', ArrowDown: '↓', ArrowLeft: '←', ArrowRight: '→',
+  Space: 'SPACE', Enter: 'ENTER', Tab: 'TAB', Backspace: 'BKSP'
+};
+
+// Short name for a key code: KeyW -> W, Digit1 -> 1, ShiftLeft -> L-SHIFT
+export const keyLabel = (code: string) => {
+  if (KEY_SYMBOLS[code]) return KEY_SYMBOLS[code];
+  const match = code.match(/^(Key|Digit|Numpad)(.+)$/);
+  if (match) return (match[1] === 'Numpad' ? 'NUM ' : '') + match[2].toUpperCase();
+  const side = code.match(/^(Shift|Control|Alt|Meta)(Left|Right)$/);
+  if (side) return `${side[2] === 'Left' ? 'L' : 'R'}-${side[1].toUpperCase()}`;
+  return code.toUpperCase();
+};
+
+export const actionFor = (bindings: KeyBindings, code: string): ControlAction | null =>
+  CONTROL_ACTIONS.find(action => bindings[action].includes(code)) || null;
+
+// The action other than `action` that already owns `code`
+export const findConflict = (bindings: KeyBindings, action: ControlAction, code: string): ControlAction | null => {
+  const owner = actionFor(bindings, code);
+  return owner && owner !== action ? owner : null;
+};
+
+// Adds `code` to `action`, taking it away from any other action; the oldest binding makes room past the limit
+export const bindKey = (bindings: KeyBindings, action: ControlAction, code: string): KeyBindings => {
+  const next = { ...bindings };
+  CONTROL_ACTIONS.forEach(other => {
+    if (other !== action && next[other].includes(code)) next[other] = next[other].filter(c => c !== code);
+  });
+  if (!next[action].includes(code)) next[action] = [...next[action], code].slice(-MAX_BINDINGS);
+  return next;
+};
+
+export const unbindKey = (bindings: KeyBindings, action: ControlAction, code: string): KeyBindings => ({
+  ...bindings,
+  [action]: bindings[action].filter(c => c !== code)
+});
+
+// Actions whose keys are currently down
+export const heldActions = (bindings: KeyBindings, keys: { [code: string]: boolean }): Partial<Record<ControlAction, boolean>> => {
+  const held: Partial<Record<ControlAction, boolean>> = {};
+  CONTROL_ACTIONS.forEach(action => {
+    if (bindings[action].some(code => keys[code])) held[action] = true;
+  });
+  return held;
+};
+
+// Fills missing actions from the defaults and drops malformed keys; stored bindings win over defaults
+export const normalizeBindings = (data: unknown): KeyBindings => {
+  const stored = isRecord(data) ? data : {};
+  const storedActions = CONTROL_ACTIONS.filter(action => Array.isArray(stored[action]));
+  let bindings = { ...DEFAULT_BINDINGS };
+  storedActions.forEach(action => { bindings[action] = []; });
+  storedActions.forEach(action => {
+    (stored[action] as unknown[])
+      .filter((code): code is string => typeof code === 'string' && code !== CANCEL_KEY)
+      .forEach((code: string) => {
+        const owner = actionFor(bindings, code);
+        if (owner && storedActions.includes(owner)) return; // Stored twice; the first one keeps it
+        bindings = bindKey(bindings, action, code);
+      });
+  });
+  return bindings;
+};
+
+const keysOf = (bindings: KeyBindings, action: ControlAction) =>
+  bindings[action].length ? bindings[action].map(keyLabel).join('/') : 'UNBOUND';
+
+// Footer help line, e.g. "[W/↑ S/↓ A/← D/→] MOVE • [L-SHIFT/R-SHIFT] FOCUS • ..."
+export const describeBindings = (bindings: KeyBindings) => [
+  `[${MOVE_ACTIONS.map(action => keysOf(bindings, action)).join(' ')}] MOVE`,
+  `[${keysOf(bindings, 'FOCUS')}] FOCUS`,
+  `[${keysOf(bindings, 'SECONDARY')}] SECONDARY`,
+  `[${keysOf(bindings, 'ARMORY')}] ARMORY`,
+  `[${keysOf(bindings, 'PAUSE')}] PAUSE`,
+  `[${keysOf(bindings, 'MUTE')}] MUTE`
+].join(' • ');
@@ -0,0 +1,112 @@
+import { PowerUp } from '../types';
+import archetypeData from './enemyArchetypes.json';
+import { isRecord, hasNumbers, fieldOf } from './guards';
+
+/**
+ * Enemy archetype registry.
+ *
+ * Everything that distinguishes one enemy from another lives in
+ * `enemyArchetypes.json`: wave-scaled stats, when it may spawn, how it moves,
+ * what it fires, what it drops and how it is drawn. The simulation and the
+ * renderer only interpret these definitions, so a new enemy or a balance
+ * pass is a data change.
+ */
+
+// Value that grows with the wave number: base + perWave * wave
+export interface WaveScaled {
+  base: number;
+  perWave?: number;
+}
+
+export type EnemyMovement =
+  | { kind: 'drift'; weave?: { frequency: number; amplitude: number } } // Straight fall, pattern 1 weaves
+  | { kind: 'chase'; speed: WaveScaled } // Slides horizontally toward the player
+  | { kind: 'hover'; altitude: number; climb: number; sway: { frequency: number; amplitude: number } }
+  | { kind: 'advance'; speed: number; sway: { frequency: number; amplitude: number } }
+  | { kind: 'anchored' }; // Positioned by its boss, see bosses.ts
+
+export interface EnemyWeapon {
+  interval: number; // ms between volleys
+  projectile: {
+    behavior: 'straight' | 'homing' | 'mine';
+    width: number;
+    height: number;
+    color: string;
+    damage: WaveScaled;
+  };
+  shots: { vx: number; vy: number }[];
+}
+
+export interface EnemyRenderStyle {
+  shape: 'triangle' | 'dart' | 'hexagon' | 'orb' | 'winged' | 'fortress' | 'turret';
+  size: number;
+  trim?: string;
+  shieldColor?: string;
+  lockOn?: boolean; // Draws a targeting line and the "WARNING" HUD callout
+}
+
+export interface EnemyArchetype {
+  id: string;
+  // Spawn rules are checked in `order`; the first whose wave gate passes and whose roll is beaten wins.
+  // Archetypes without spawn rules only appear through wave groups or bosses.
+  spawn?: { order: number; minWave: number; rollAbove: number; event?: string };
+  hp: WaveScaled;
+  shield?: WaveScaled;
+  size: number;
+  color: string;
+  scoreValue: number;
+  movement: EnemyMovement;
+  weapon?: EnemyWeapon;
+  drops: { chance: number; table: { type: PowerUp['type']; weight: number }[] };
+  death: { particles: number; heavy: boolean };
+  render: EnemyRenderStyle;
+}
+
+export type ArchetypeRegistry = Record<string, EnemyArchetype>;
+
+export const scaleForWave = (value: WaveScaled, wave: number) => value.base + (value.perWave || 0) * wave;
+
+const MOVEMENT_KINDS = ['drift', 'chase', 'hover', 'advance', 'anchored'];
+const SHAPES = ['triangle', 'dart', 'hexagon', 'orb', 'winged', 'fortress', 'turret'];
+
+const fail: (id: string, message: string) => never = (id, message) => {
+  throw new Error(`Enemy archetype "${id}": ${message}`);
+};
+
+const checkScaled = (id: string, field: string, value: unknown) => {
+  if (!hasNumbers(value, 'base')) fail(id, `${field}.base must be a number`);
+};
+
+// Validates raw JSON into a registry; throws on the first malformed archetype
+export const loadArchetypes = (data: unknown): ArchetypeRegistry => {
+  if (!isRecord(data)) throw new Error('Enemy archetypes must be an object keyed by type');
+
+  const registry: ArchetypeRegistry = {};
+  Object.entries(data).forEach(([id, raw]) => {
+    if (!isRecord(raw)) fail(id, 'definition must be an object');
+    if (raw.spawn && !hasNumbers(raw.spawn, 'order')) fail(id, 'spawn.order must be a number');
+    checkScaled(id, 'hp', raw.hp);
+    if (raw.shield) checkScaled(id, 'shield', raw.shield);
+    if (typeof raw.size !== 'number' || typeof raw.scoreValue !== 'number') fail(id, 'size and scoreValue must be numbers');
+    const movement = fieldOf(raw.movement, 'kind');
+    if (!MOVEMENT_KINDS.includes(movement as string)) fail(id, `unknown movement kind "${movement}"`);
+    if (raw.weapon) {
+      if (!isRecord(raw.weapon) || typeof raw.weapon.interval !== 'number' || !Array.isArray(raw.weapon.shots)) {
+        fail(id, 'weapon needs interval and shots');
+      }
+      checkScaled(id, 'weapon.projectile.damage', fieldOf(fieldOf(raw.weapon, 'projectile'), 'damage'));
+    }
+    if (!Array.isArray(fieldOf(raw.drops, 'table'))) fail(id, 'drops.table must be an array');
+    const shape = fieldOf(raw.render, 'shape');
+    if (!SHAPES.includes(shape as string)) fail(id, `unknown render shape "${shape}"`);
+
+    registry[id] = { ...raw, id } as EnemyArchetype;
+  });
+  return registry;
+};
+
+export const ENEMY_ARCHETYPES: ArchetypeRegistry = loadArchetypes(archetypeData);
+
+// Randomly spawnable archetypes in evaluation order
+export const spawnOrder = (registry: ArchetypeRegistry): EnemyArchetype[] =>
+  Object.values(registry).filter(a => a.spawn).sort((a, b) => a.spawn!.order - b.spawn!.order);
@@ -0,0 +1,71 @@
+import { Position, PowerUp, PlayerWeapon, SecondaryType } from '../types';
+import { ArmoryItemId } from './armory';
+
+/**
+ * Everything the simulation reports while a run plays out.
+ *
+ * Events are queued during a step and handed out by `drainEvents`; the
+ * canvas publishes them on an `EventBus` so the comms log, commentary,
+ * achievements, audio and analytics each subscribe on their own. Payloads
+ * are plain data copied at the moment the event was raised.
+ */
+
+export type GameEvent =
+  | { type: 'ENEMY_SPAWNED'; enemyId: number; archetype: string; pos: Position; alert?: string } // `alert` is the archetype's spawn cue, once per group
+  | { type: 'ENEMY_KILLED'; enemyId: number; archetype: string; weapon: PlayerWeapon; score: number; pos: Position }
+  | { type: 'DAMAGE_TAKEN'; source: 'COLLISION' | 'PROJECTILE'; attacker: string; amount: number; hullDamage: number; hull: number; shield: number } // `attacker` is an archetype id; `hullDamage` is the part the shield didn't stop
+  | { type: 'POWERUP_COLLECTED'; powerup: PowerUp['type']; bonus: number } // `bonus` is score paid instead of an upgrade
+  | { type: 'PURCHASE_MADE'; item: ArmoryItemId; price: number }
+  | { type: 'WAVE_STARTED'; wave: number; name: string }
+  | { type: 'WAVE_CLEARED'; wave: number; name: string }
+  | { type: 'BOSS_WARNING'; boss: string }
+  | { type: 'BOSS_PHASE'; boss: string; phase: number; cue: string } // `cue` is the phase's event id from bosses.json
+  | { type: 'BOSS_PART_DESTROYED'; boss: string; remaining: number }
+  | { type: 'BOSS_CORE_EXPOSED'; boss: string }
+  | { type: 'BOSS_DEFEATED'; boss: string }
+  | { type: 'BOMB_DETONATED'; damage: number }
+  | { type: 'SECONDARY_EQUIPPED'; secondary: SecondaryType }
+  | { type: 'WEAPON_FIRED'; weapon: PlayerWeapon; level: number } // One per volley; `level` is the primary weapon level
+  | { type: 'EXPLOSION'; pos: Position; heavy: boolean; size: number }; // `size` is the particle count
+
+export type GameEventType = GameEvent['type'];
+
+export type GameEventOf<T extends GameEventType> = Extract<GameEvent, { type: T }>;
+
+export type GameEventListener = (event: GameEvent) => void;
+
+// Returned by every subscription; calling it twice is harmless
+export type Unsubscribe = () => void;
+
+export class EventBus {
+  private listeners = new Set<GameEventListener>();
+
+  subscribe(listener: GameEventListener): Unsubscribe {
+    // Wrapped so the same function can subscribe twice and unsubscribe independently
+    const entry: GameEventListener = event => listener(event);
+    this.listeners.add(entry);
+    return () => { this.listeners.delete(entry); };
+  }
+
+  // Only events of one type, already narrowed
+  on<T extends GameEventType>(type: T, listener: (event: GameEventOf<T>) => void): Unsubscribe {
+    return this.subscribe(event => {
+      if (event.type === type) listener(event as GameEventOf<T>);
+    });
+  }
+
+  // A failing listener is logged and skipped so the rest still hear the event
+  publish = (event: GameEvent) => {
+    [...this.listeners].forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`Listener failed on ${event.type}`, error);
+      }
+    });
+  };
+
+  clear() {
+    this.listeners.clear();
+  }
+}
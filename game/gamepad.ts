@@ -0,0 +1,145 @@
+import { Position } from '../types';
+import { Unsubscribe } from './events';
+
+/**
+ * Controller input through the Gamepad API.
+ *
+ * Browsers never push pad state, so `poll` has to run once per animation
+ * frame (the canvas loop does this). Only pads reporting the "standard"
+ * layout are used, and the most recently connected one wins. Movement comes
+ * from the left stick, shaped by a radial deadzone and a response curve, or
+ * from the d-pad; buttons map to actions, and `onPress` listeners hear each
+ * action once per press.
+ */
+
+export type GamepadAction = 'SECONDARY' | 'ARMORY' | 'PAUSE' | 'CONFIRM' | 'BACK' | 'UP' | 'DOWN' | 'LEFT' | 'RIGHT';
+
+// Standard-layout button indices
+const BUTTON_ACTIONS: Record<GamepadAction, number[]> = {
+  SECONDARY: [5, 7], // RB, right trigger; kept off A so confirming an overlay never fires a volley
+  ARMORY: [3], // Y
+  PAUSE: [9], // Start
+  CONFIRM: [0], // A
+  BACK: [1], // B
+  UP: [12],
+  DOWN: [13],
+  LEFT: [14],
+  RIGHT: [15]
+};
+
+const GAMEPAD_ACTIONS = Object.keys(BUTTON_ACTIONS) as GamepadAction[];
+
+export const STICK_DEADZONE = 0.18;
+export const STICK_RESPONSE = 1.5; // Exponent; above 1 trades speed near the centre for precision
+const BUTTON_THRESHOLD = 0.5; // Analog triggers count as pressed past this
+
+// Radial deadzone rescaled to 0-1, then curved; direction is kept
+export const shapeStick = (x: number, y: number, deadzone: number = STICK_DEADZONE, response: number = STICK_RESPONSE): Position => {
+  const length = Math.hypot(x, y);
+  const magnitude = Math.min(1, length);
+  if (magnitude <= deadzone) return { x: 0, y: 0 };
+  const shaped = Math.pow((magnitude - deadzone) / (1 - deadzone), response);
+  return { x: (x / length) * shaped, y: (y / length) * shaped };
+};
+
+const isPressed = (button: GamepadButton | undefined) => !!button && (button.pressed || button.value > BUTTON_THRESHOLD);
+
+const standardPads = () =>
+  Array.from(navigator.getGamepads ? navigator.getGamepads() : []).filter((pad): pad is Gamepad => !!pad && pad.connected && pad.mapping === 'standard');
+
+export class GamepadInput {
+  stick: Position = { x: 0, y: 0 }; // Shaped movement, each axis -1..1
+  private index: number | null = null;
+  private held = new Set<GamepadAction>();
+  private pressListeners = new Set<(action: GamepadAction) => void>();
+  private connectionListeners = new Set<(name: string | null) => void>();
+
+  // Starts hot-plug tracking, picking up a pad that was connected before the page loaded
+  attach(): Unsubscribe {
+    const handleConnected = (e: GamepadEvent) => {
+      if (e.gamepad.mapping !== 'standard') return;
+      this.select(e.gamepad.index);
+    };
+    const handleDisconnected = (e: GamepadEvent) => {
+      if (e.gamepad.index !== this.index) return;
+      const fallback = standardPads()[0];
+      this.select(fallback ? fallback.index : null);
+    };
+
+    window.addEventListener('gamepadconnected', handleConnected);
+    window.addEventListener('gamepaddisconnected', handleDisconnected);
+    const existing = standardPads()[0];
+    if (existing) this.select(existing.index);
+
+    return () => {
+      window.removeEventListener('gamepadconnected', handleConnected);
+      window.removeEventListener('gamepaddisconnected', handleDisconnected);
+    };
+  }
+
+  // Name of the active pad, or null
+  get connected(): string | null {
+    return this.pad()?.id ?? null;
+  }
+
+  poll() {
+    const pad = this.pad();
+    const held = new Set<GamepadAction>();
+    this.stick = { x: 0, y: 0 };
+
+    if (pad) {
+      GAMEPAD_ACTIONS.forEach(action => {
+        if (BUTTON_ACTIONS[action].some(i => isPressed(pad.buttons[i]))) held.add(action);
+      });
+      this.stick = shapeStick(pad.axes[0] || 0, pad.axes[1] || 0);
+
+      // D-pad moves at full speed when the stick is at rest
+      if (!this.stick.x && !this.stick.y) {
+        const dx = (held.has('RIGHT') ? 1 : 0) - (held.has('LEFT') ? 1 : 0);
+        const dy = (held.has('DOWN') ? 1 : 0) - (held.has('UP') ? 1 : 0);
+        const length = Math.hypot(dx, dy) || 1;
+        this.stick = { x: dx / length, y: dy / length };
+      }
+    }
+
+    const pressed = GAMEPAD_ACTIONS.filter(action => held.has(action) && !this.held.has(action));
+    this.held = held;
+    pressed.forEach(action => this.pressListeners.forEach(listener => listener(action)));
+  }
+
+  isHeld(action: GamepadAction): boolean {
+    return this.held.has(action);
+  }
+
+  onPress(listener: (action: GamepadAction) => void): Unsubscribe {
+    this.pressListeners.add(listener);
+    return () => { this.pressListeners.delete(listener); };
+  }
+
+  onConnectionChange(listener: (name: string | null) => void): Unsubscribe {
+    this.connectionListeners.add(listener);
+    return () => { this.connectionListeners.delete(listener); };
+  }
+
+  // Silently does nothing on pads or browsers without vibration
+  rumble(intensity: number, durationMs: number) {
+    const actuator = this.pad()?.vibrationActuator;
+    if (!actuator?.playEffect) return;
+    const strength = Math.max(0, Math.min(1, intensity));
+    actuator.playEffect('dual-rumble', { duration: durationMs, strongMagnitude: strength, weakMagnitude: strength / 2 })
+      .catch(() => {});
+  }
+
+  private pad(): Gamepad | null {
+    if (this.index === null || !navigator.getGamepads) return null;
+    return navigator.getGamepads()[this.index] || null;
+  }
+
+  private select(index: number | null) {
+    if (index === this.index) return;
+    this.index = index;
+    this.held = new Set();
+    const name = this.connected;
+    this.connectionListeners.forEach(listener => listener(name));
+  }
+}
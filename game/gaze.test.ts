@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { Position } from '../types';
+import { GazeTracker, GazeFilterId, GazeStatus, SyntheticGazeSource, DEFAULT_GAZE_OPTIONS } from './gaze';
+
+const FRAME_MS = 33; // Roughly WebGazer's sample rate
+
+// Emits one sample per frame from `from` until `to`, polling the tracker after each
+const track = (source: SyntheticGazeSource, tracker: GazeTracker, from: number, to: number, each?: (time: number) => void) => {
+  for (let time = from; time < to; time += FRAME_MS) {
+    source.emit(time);
+    tracker.poll(time);
+    each?.(time);
+  }
+};
+
+// Mean distance of the steering target from a fixed gaze point once the filter has settled
+const jitter = (filter: GazeFilterId) => {
+  const point: Position = { x: 500, y: 400 };
+  const source = new SyntheticGazeSource(() => point, 40, 3);
+  // No deadzone or dwell, so the target is the filter output
+  const tracker = new GazeTracker(source, filter, { ...DEFAULT_GAZE_OPTIONS, deadzone: 0, dwellMs: 0 });
+  tracker.start();
+
+  const distances: number[] = [];
+  track(source, tracker, 0, 4000, time => {
+    if (time >= 1000) distances.push(Math.hypot(tracker.target!.x - point.x, tracker.target!.y - point.y));
+  });
+  return distances.reduce((sum, d) => sum + d, 0) / distances.length;
+};
+
+describe('GazeTracker', () => {
+  describe('filters', () => {
+    it('attenuate sample noise', () => {
+      const raw = jitter('NONE');
+      expect(raw).toBeGreaterThan(15);
+      expect(jitter('ONE_EURO')).toBeLessThan(raw / 2);
+      expect(jitter('KALMAN')).toBeLessThan(raw / 2);
+    });
+  });
+
+  describe('deadzone', () => {
+    // A steady gaze that drifts a little at 1s and jumps across the screen at 2s
+    const path = (time: number): Position =>
+      time < 1000 ? { x: 500, y: 400 } : time < 2000 ? { x: 520, y: 400 } : { x: 800, y: 400 };
+
+    const create = () => {
+      const source = new SyntheticGazeSource(path, 0);
+      const tracker = new GazeTracker(source, 'NONE');
+      tracker.start();
+      return { source, tracker };
+    };
+
+    it('holds the target while the gaze stays inside it', () => {
+      const { source, tracker } = create();
+      track(source, tracker, 0, 2000);
+      expect(tracker.target).toEqual({ x: 500, y: 400 });
+    });
+
+    it('follows only once the gaze has dwelt outside', () => {
+      const { source, tracker } = create();
+      track(source, tracker, 0, 2000);
+
+      const movedAt: number[] = [];
+      track(source, tracker, 2000, 2500, time => {
+        if (tracker.target!.x === 800) movedAt.push(time);
+      });
+      expect(movedAt.length).toBeGreaterThan(0);
+      expect(movedAt[0] - 2000).toBeGreaterThanOrEqual(DEFAULT_GAZE_OPTIONS.dwellMs);
+      expect(movedAt[0] - 2000).toBeLessThan(DEFAULT_GAZE_OPTIONS.dwellMs + 2 * FRAME_MS);
+    });
+
+    it('ignores a glance shorter than the dwell time', () => {
+      const glance = (time: number): Position => time >= 1000 && time < 1060 ? { x: 800, y: 400 } : { x: 500, y: 400 };
+      const source = new SyntheticGazeSource(glance, 0);
+      const tracker = new GazeTracker(source, 'NONE');
+      tracker.start();
+      track(source, tracker, 0, 1500);
+      expect(tracker.target).toEqual({ x: 500, y: 400 });
+    });
+  });
+
+  describe('status', () => {
+    // The face leaves the camera between 1s and 3s
+    const path = (time: number): Position | null =>
+      time >= 1000 && time < 3000 ? null : time < 1000 ? { x: 100, y: 100 } : { x: 800, y: 600 };
+
+    it('reports LOST once samples stop for lostMs, and TRACKING when they resume', () => {
+      const source = new SyntheticGazeSource(path, 0);
+      const tracker = new GazeTracker(source, 'ONE_EURO');
+      const statuses: GazeStatus[] = [];
+      tracker.onStatusChange(status => statuses.push(status));
+      expect(tracker.status).toBe('IDLE');
+      tracker.start();
+
+      let lostAt: number | null = null;
+      track(source, tracker, 0, 3500, time => {
+        if (lostAt === null && tracker.status === 'LOST') lostAt = time;
+      });
+      expect(statuses).toEqual(['TRACKING', 'LOST', 'TRACKING']);
+      // Last sample just before 1s
+      expect(lostAt! - 990).toBeGreaterThan(DEFAULT_GAZE_OPTIONS.lostMs);
+      expect(lostAt! - 990).toBeLessThanOrEqual(DEFAULT_GAZE_OPTIONS.lostMs + FRAME_MS);
+    });
+
+    it('restarts the filter when samples resume', () => {
+      const source = new SyntheticGazeSource(path, 0);
+      const tracker = new GazeTracker(source, 'ONE_EURO');
+      tracker.start();
+      track(source, tracker, 0, 3000);
+      expect(tracker.target).toEqual({ x: 100, y: 100 });
+
+      // No smoothing from where the gaze was lost
+      source.emit(3000);
+      expect(tracker.status).toBe('TRACKING');
+      expect(tracker.target).toEqual({ x: 800, y: 600 });
+    });
+
+    it('goes IDLE when stopped', () => {
+      const source = new SyntheticGazeSource(() => ({ x: 100, y: 100 }), 0);
+      const tracker = new GazeTracker(source);
+      tracker.start();
+      source.emit(0);
+      tracker.stop();
+      expect(tracker.status).toBe('IDLE');
+      expect(tracker.target).toBeNull();
+    });
+  });
+});
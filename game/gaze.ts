@@ -0,0 +1,289 @@
+import { Position } from '../types';
+import { Unsubscribe } from './events';
+import { Rng, createRng } from './rng';
+
+/**
+ * Eye tracking.
+ *
+ * A `GazeSource` produces raw gaze estimates in page pixels: WebGazer in the
+ * browser, or `SyntheticGazeSource`, which follows a scripted path with
+ * seeded noise so the filtering can be exercised without a camera. The
+ * `GazeTracker` smooths those samples with the selected filter, then holds
+ * the steering target still while the gaze stays within a deadzone of it and
+ * only follows once the gaze has dwelt outside for `dwellMs`, so blinks and
+ * stray saccades don't yank the ship. No usable sample for `lostMs` means
+ * the face is gone and the tracker reports LOST. Sample times and `poll`
+ * share one clock (`performance.now()` in the browser).
+ */
+
+export interface GazeSample {
+  x: number; // Page pixels
+  y: number;
+  time: number; // ms
+}
+
+export interface GazeSource {
+  start(listener: (sample: GazeSample | null) => void): void; // null: no face in view
+  stop(): void;
+  calibrate(point: Position): void; // The pilot is looking at this page point right now
+}
+
+export type GazeFilterId = 'ONE_EURO' | 'KALMAN' | 'NONE';
+
+export const GAZE_FILTERS: Record<GazeFilterId, string> = {
+  ONE_EURO: 'One Euro',
+  KALMAN: 'Kalman',
+  NONE: 'Raw'
+};
+
+export type GazeStatus = 'IDLE' | 'TRACKING' | 'LOST';
+
+export interface GazeTrackerOptions {
+  deadzone: number; // Page pixels
+  dwellMs: number;
+  lostMs: number;
+}
+
+export const DEFAULT_GAZE_OPTIONS: GazeTrackerOptions = { deadzone: 30, dwellMs: 120, lostMs: 1200 };
+
+// Calibration: page fractions of the play area, clicked in order
+export const CALIBRATION_POINTS: Position[] = [0.1, 0.5, 0.9].flatMap(y => [0.1, 0.5, 0.9].map(x => ({ x, y })));
+export const CLICKS_PER_POINT = 3;
+
+interface GazeFilter {
+  filter(sample: GazeSample): Position;
+}
+
+// Exponential smoothing factor for a cutoff frequency (Hz) at a sample interval (s)
+const smoothing = (cutoff: number, dt: number) => {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+};
+
+const interval = (from: GazeSample, to: GazeSample) => Math.max(1, to.time - from.time) / 1000;
+
+/**
+ * One Euro filter (Casiez et al. 2012): a low-pass whose cutoff rises with
+ * speed, so a resting gaze is smoothed hard and a saccade is followed quickly.
+ */
+export class OneEuroFilter implements GazeFilter {
+  private last: GazeSample | null = null;
+  private value: Position = { x: 0, y: 0 };
+  private velocity: Position = { x: 0, y: 0 };
+
+  constructor(private minCutoff = 0.8, private beta = 0.005, private velocityCutoff = 1) {}
+
+  filter(sample: GazeSample): Position {
+    const last = this.last;
+    this.last = sample;
+    if (!last) {
+      this.value = { x: sample.x, y: sample.y };
+      return this.value;
+    }
+
+    const dt = interval(last, sample);
+    const a = smoothing(this.velocityCutoff, dt);
+    this.velocity = {
+      x: this.velocity.x + ((sample.x - last.x) / dt - this.velocity.x) * a,
+      y: this.velocity.y + ((sample.y - last.y) / dt - this.velocity.y) * a
+    };
+    const cutoff = this.minCutoff + this.beta * Math.hypot(this.velocity.x, this.velocity.y);
+    const b = smoothing(cutoff, dt);
+    this.value = { x: this.value.x + (sample.x - this.value.x) * b, y: this.value.y + (sample.y - this.value.y) * b };
+    return this.value;
+  }
+}
+
+/**
+ * Kalman filter with a stationary-gaze model: the estimate drifts by
+ * `processNoise` px²/s and each sample carries `measurementNoise` px².
+ */
+export class KalmanFilter implements GazeFilter {
+  private last: GazeSample | null = null;
+  private value: Position = { x: 0, y: 0 };
+  private variance = 0;
+
+  constructor(private processNoise = 20000, private measurementNoise = 2500) {}
+
+  filter(sample: GazeSample): Position {
+    const last = this.last;
+    this.last = sample;
+    if (!last) {
+      this.value = { x: sample.x, y: sample.y };
+      this.variance = this.measurementNoise;
+      return this.value;
+    }
+
+    this.variance += this.processNoise * interval(last, sample);
+    const gain = this.variance / (this.variance + this.measurementNoise);
+    this.value = { x: this.value.x + (sample.x - this.value.x) * gain, y: this.value.y + (sample.y - this.value.y) * gain };
+    this.variance *= 1 - gain;
+    return this.value;
+  }
+}
+
+export const createGazeFilter = (id: GazeFilterId): GazeFilter => {
+  if (id === 'ONE_EURO') return new OneEuroFilter();
+  if (id === 'KALMAN') return new KalmanFilter();
+  return { filter: sample => ({ x: sample.x, y: sample.y }) };
+};
+
+// 100 for samples right on the point, falling to 0 at `radius` and beyond
+export const calibrationAccuracy = (samples: Position[], point: Position, radius: number) => {
+  if (samples.length === 0) return 0;
+  const score = samples.reduce((sum, s) => sum + Math.max(0, 1 - Math.hypot(s.x - point.x, s.y - point.y) / radius), 0);
+  return Math.round((score / samples.length) * 100);
+};
+
+export class GazeTracker {
+  target: Position | null = null; // Filtered steering point in page pixels
+  private filterId: GazeFilterId;
+  private filter: GazeFilter;
+  private current: GazeStatus = 'IDLE';
+  private lastSampleAt = 0;
+  private leftDeadzoneAt: number | null = null;
+  private sampleListeners = new Set<(sample: GazeSample) => void>();
+  private statusListeners = new Set<(status: GazeStatus) => void>();
+
+  constructor(private source: GazeSource, filterId: GazeFilterId = 'ONE_EURO', private options: GazeTrackerOptions = DEFAULT_GAZE_OPTIONS) {
+    this.filterId = filterId;
+    this.filter = createGazeFilter(filterId);
+  }
+
+  get status(): GazeStatus {
+    return this.current;
+  }
+
+  setFilter(id: GazeFilterId) {
+    if (id === this.filterId) return;
+    this.filterId = id;
+    this.filter = createGazeFilter(id);
+  }
+
+  start() {
+    this.source.start(sample => { if (sample) this.handleSample(sample); });
+  }
+
+  stop() {
+    this.source.stop();
+    this.target = null;
+    this.setStatus('IDLE');
+  }
+
+  calibrate(point: Position) {
+    this.source.calibrate(point);
+  }
+
+  // Declares the gaze lost once samples stop arriving; call once per frame
+  poll(now: number) {
+    if (this.current === 'TRACKING' && now - this.lastSampleAt > this.options.lostMs) this.setStatus('LOST');
+  }
+
+  // Raw samples, before filtering
+  onSample(listener: (sample: GazeSample) => void): Unsubscribe {
+    this.sampleListeners.add(listener);
+    return () => { this.sampleListeners.delete(listener); };
+  }
+
+  onStatusChange(listener: (status: GazeStatus) => void): Unsubscribe {
+    this.statusListeners.add(listener);
+    return () => { this.statusListeners.delete(listener); };
+  }
+
+  private handleSample(sample: GazeSample) {
+    // Coming back from a lost face starts over instead of smoothing from where the gaze was
+    if (this.current !== 'TRACKING') {
+      this.filter = createGazeFilter(this.filterId);
+      this.target = null;
+      this.leftDeadzoneAt = null;
+    }
+    this.lastSampleAt = sample.time;
+    this.sampleListeners.forEach(listener => listener(sample));
+
+    const point = this.filter.filter(sample);
+    if (!this.target) {
+      this.target = { ...point };
+    } else if (Math.hypot(point.x - this.target.x, point.y - this.target.y) <= this.options.deadzone) {
+      this.leftDeadzoneAt = null;
+    } else {
+      if (this.leftDeadzoneAt === null) this.leftDeadzoneAt = sample.time;
+      if (sample.time - this.leftDeadzoneAt >= this.options.dwellMs) this.target = { ...point };
+    }
+    this.setStatus('TRACKING');
+  }
+
+  private setStatus(status: GazeStatus) {
+    if (status === this.current) return;
+    this.current = status;
+    this.statusListeners.forEach(listener => listener(status));
+  }
+}
+
+export class WebGazerSource implements GazeSource {
+  private get webgazer(): any {
+    return (window as any).webgazer;
+  }
+
+  start(listener: (sample: GazeSample | null) => void) {
+    const webgazer = this.webgazer;
+    if (!webgazer) return;
+
+    // Clear any previous listeners
+    webgazer.clearGazeListener();
+    webgazer.setGazeListener((data: any) => listener(data ? { x: data.x, y: data.y, time: performance.now() } : null));
+    // Training comes from calibration clicks only; the cursor says nothing about gaze mid-run
+    Promise.resolve(webgazer.begin()).then(() => webgazer.removeMouseEventListeners?.());
+
+    webgazer.showVideo(true);
+    webgazer.showFaceOverlay(true);
+    webgazer.showFaceFeedbackBox(true);
+  }
+
+  stop() {
+    const webgazer = this.webgazer;
+    if (!webgazer) return;
+    webgazer.end();
+    webgazer.showVideo(false);
+    webgazer.showFaceOverlay(false);
+    webgazer.showFaceFeedbackBox(false);
+    // Manually hide video if webgazer doesn't cleanup properly
+    const videoEl = document.getElementById('webgazerVideoFeed');
+    if (videoEl) videoEl.style.display = 'none';
+  }
+
+  calibrate(point: Position) {
+    this.webgazer?.recordScreenPosition(point.x, point.y, 'click');
+  }
+}
+
+// Scripted gaze for tests and demos; `path` returning null simulates a lost face
+export class SyntheticGazeSource implements GazeSource {
+  calibrations: Position[] = [];
+  private listener: ((sample: GazeSample | null) => void) | null = null;
+  private rng: Rng;
+
+  constructor(private path: (time: number) => Position | null, private noise = 40, seed = 1) {
+    this.rng = createRng(seed);
+  }
+
+  start(listener: (sample: GazeSample | null) => void) {
+    this.listener = listener;
+  }
+
+  stop() {
+    this.listener = null;
+  }
+
+  calibrate(point: Position) {
+    this.calibrations.push(point);
+  }
+
+  // Delivers one sample at `time`, jittered by up to `noise` px on each axis
+  emit(time: number) {
+    if (!this.listener) return;
+    const point = this.path(time);
+    this.listener(point
+      ? { x: point.x + this.rng.range(-this.noise, this.noise), y: point.y + this.rng.range(-this.noise, this.noise), time }
+      : null);
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * Type guards for untrusted data.
+ *
+ * Loaders and parsers take JSON files, imported documents and localStorage
+ * contents as `unknown` and narrow them with these before reading fields, so
+ * a malformed document fails validation rather than slipping through as `any`.
+ */
+export type JsonRecord = Record<string, unknown>;
+
+export const isRecord = (value: unknown): value is JsonRecord =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+export const isRecordArray = (value: unknown): value is JsonRecord[] =>
+  Array.isArray(value) && value.every(isRecord);
+
+// An object whose listed fields are all numbers
+export const hasNumbers = <K extends string>(value: unknown, ...keys: K[]): value is JsonRecord & Record<K, number> =>
+  isRecord(value) && keys.every(key => typeof value[key] === 'number');
+
+// A field of a value that may not be an object, for checking nested fields in one step
+export const fieldOf = (value: unknown, key: string): unknown => (isRecord(value) ? value[key] : undefined);
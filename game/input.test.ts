@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Position } from '../types';
+import { Simulation } from './simulation';
+import { InputRouter, InputSource, MouseSource, KeyboardSource, GamepadSource, EyeSource, BotSource, ReplaySource } from './input';
+import { DEFAULT_BINDINGS } from './controls';
+import { GamepadInput } from './gamepad';
+import { GazeTracker, SyntheticGazeSource } from './gaze';
+import { ReplayRecorder, decodeReplay } from './replay';
+
+// Canvas drawn at its native size at the page origin, so page and canvas points match
+const CANVAS = {
+  width: 600,
+  height: 800,
+  getBoundingClientRect: () => ({ left: 0, top: 0, width: 600, height: 800 })
+} as HTMLCanvasElement;
+
+const REST: Position = { x: 300, y: 700 };
+
+describe('InputRouter', () => {
+  let clock = 0;
+  let detach: (() => void)[] = [];
+
+  // Browser events stand-ins: the sources only read `code` and the client position
+  const dispatch = (type: string, fields: object) => window.dispatchEvent(Object.assign(new Event(type), fields));
+  const moveMouse = (x: number, y: number) => { clock += 10; dispatch('mousemove', { clientX: x, clientY: y }); };
+  const pressKey = (code: string) => { clock += 10; dispatch('keydown', { code }); };
+  const releaseKey = (code: string) => { clock += 10; dispatch('keyup', { code }); };
+
+  const mouseAndKeys = () => {
+    const mouse = new MouseSource(CANVAS);
+    const keyboard = new KeyboardSource(DEFAULT_BINDINGS, () => false);
+    detach.push(mouse.attach(), keyboard.attach());
+    return [mouse, keyboard];
+  };
+
+  // A gaze fixed on `point` while `tracking()` holds
+  const eyeOn = (point: Position, tracking: () => boolean) => {
+    const gaze = new SyntheticGazeSource(() => (tracking() ? point : null), 0);
+    const tracker = new GazeTracker(gaze, 'NONE');
+    tracker.start();
+    return { source: new EyeSource(tracker, CANVAS), gaze, tracker };
+  };
+
+  beforeEach(() => {
+    clock = 0;
+    vi.stubGlobal('window', new EventTarget());
+    vi.spyOn(performance, 'now').mockImplementation(() => clock);
+  });
+
+  afterEach(() => {
+    detach.forEach(unsubscribe => unsubscribe());
+    detach = [];
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('holds the starting position until anything is used', () => {
+    const router = new InputRouter(mouseAndKeys());
+    expect(router.command(clock)).toEqual({ mode: 'MOUSE', target: REST, direction: { x: 0, y: 0 }, actions: {} });
+    expect(router.steering).toBeNull();
+  });
+
+  it('lets the most recently used of mouse and keyboard steer', () => {
+    const router = new InputRouter(mouseAndKeys());
+
+    moveMouse(100, 200);
+    expect(router.command(clock)).toMatchObject({ mode: 'MOUSE', target: { x: 100, y: 200 } });
+
+    pressKey('KeyA');
+    expect(router.command(clock)).toMatchObject({ mode: 'KEYBOARD', actions: { MOVE_LEFT: true } });
+    expect(router.steering).toBe('KEYBOARD');
+
+    releaseKey('KeyA');
+    moveMouse(150, 250);
+    expect(router.command(clock)).toMatchObject({ mode: 'MOUSE', target: { x: 150, y: 250 } });
+  });
+
+  it('keeps buttons from sources that are not steering', () => {
+    const router = new InputRouter(mouseAndKeys());
+    moveMouse(100, 200);
+    pressKey('Space'); // Not a move, so the mouse keeps steering
+    expect(router.command(clock)).toMatchObject({ mode: 'MOUSE', actions: { SECONDARY: true } });
+    expect(router.steering).toBe('MOUSE');
+  });
+
+  it('lets a tracked gaze beat a more recent mouse', () => {
+    let tracking = true;
+    const eye = eyeOn({ x: 420, y: 380 }, () => tracking);
+    const router = new InputRouter([...mouseAndKeys(), eye.source]);
+
+    eye.gaze.emit(clock);
+    moveMouse(100, 200);
+    expect(router.command(clock)).toMatchObject({ mode: 'EYE', target: { x: 420, y: 380 } });
+    expect(router.steering).toBe('EYE');
+
+    // Losing the face hands control back
+    tracking = false;
+    eye.tracker.poll(clock + 5000);
+    expect(router.command(clock)).toMatchObject({ mode: 'MOUSE', target: { x: 100, y: 200 } });
+  });
+
+  it('steers a gamepad by direction, not target', () => {
+    const pad = new GamepadInput();
+    const router = new InputRouter([...mouseAndKeys(), new GamepadSource(pad)]);
+    moveMouse(100, 200);
+
+    pad.stick = { x: 0.5, y: -1 };
+    clock += 10;
+    expect(router.command(clock)).toEqual({ mode: 'GAMEPAD', target: { x: 0, y: 0 }, direction: { x: 0.5, y: -1 }, actions: {} });
+  });
+
+  it('flies the bot over every live source', () => {
+    const sim = new Simulation(3);
+    sim.reset();
+    const eye = eyeOn({ x: 420, y: 380 }, () => true);
+    const router = new InputRouter([...mouseAndKeys(), eye.source, new BotSource(sim)]);
+
+    eye.gaze.emit(clock);
+    moveMouse(100, 200);
+    router.command(clock);
+    expect(router.steering).toBe('BOT');
+  });
+
+  it('plays a replay over the bot, then hands back once it runs out', () => {
+    const sim = new Simulation(3);
+    sim.reset();
+    const recorder = new ReplayRecorder(3);
+    recorder.capture({ mode: 'GAMEPAD', target: { x: 0, y: 0 }, direction: { x: 1, y: 0 }, actions: { FOCUS: true } });
+    recorder.capture({ mode: 'MOUSE', target: { x: 200, y: 600 }, direction: { x: 0, y: 0 }, actions: {} });
+    const replay = new ReplaySource(decodeReplay(recorder.finish()));
+    const router = new InputRouter([new BotSource(sim), replay]);
+
+    expect(router.command(clock)).toEqual({ mode: 'GAMEPAD', target: { x: 0, y: 0 }, direction: { x: 1, y: 0 }, actions: { FOCUS: true } });
+    expect(router.steering).toBe('REPLAY');
+    replay.advance();
+    expect(router.command(clock)).toEqual({ mode: 'MOUSE', target: { x: 200, y: 600 }, direction: { x: 0, y: 0 }, actions: {} });
+    replay.advance();
+
+    expect(replay.done).toBe(true);
+    router.command(clock);
+    expect(router.steering).toBe('BOT');
+  });
+
+  it('breaks ties between holding sources by priority', () => {
+    const holding = (id: InputSource['id'], x: number): InputSource => ({
+      id, read: () => ({ mode: 'MOUSE', target: { x, y: 0 }, direction: { x: 0, y: 0 }, actions: {}, activeAt: 1, holding: true })
+    });
+    const router = new InputRouter([holding('EYE', 1), holding('TOUCH', 2)]);
+    expect(router.command(clock).target.x).toBe(2);
+    expect(router.steering).toBe('TOUCH');
+  });
+});
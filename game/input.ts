@@ -0,0 +1,265 @@
+import { Position } from '../types';
+import { Simulation, SimulationInput, FlightAction, CANVAS_WIDTH, CANVAS_HEIGHT } from './simulation';
+import { Unsubscribe } from './events';
+import { KeyBindings, MOVE_ACTIONS, actionFor, heldActions } from './controls';
+import { GamepadInput } from './gamepad';
+import { TouchInput } from './touch';
+import { GazeTracker } from './gaze';
+import { ReplayAction, ReplayFrame } from './replay';
+
+/**
+ * Input sources.
+ *
+ * Every way of flying the ship is an `InputSource` that reports, once per
+ * tick, the command it would give the simulation: a mode, a `target`
+ * position (MOUSE, EYE, TOUCH) or a `direction` vector (GAMEPAD; KEYBOARD
+ * steers with its MOVE buttons) and the flight buttons held. The half a mode
+ * doesn't steer with is left at zero. The `InputRouter` picks one
+ * source to steer and combines everyone's buttons:
+ *
+ *   1. A source that is holding control steers: a finger on the screen, a
+ *      tracked gaze, a replay or the bot.
+ *   2. Otherwise the source used most recently steers, so moving the mouse
+ *      takes over from the keys and pushing the stick takes it back. Until
+ *      anything has been used the ship holds its starting position.
+ *   3. Ties go to the source listed first in `SOURCE_PRIORITY`.
+ *
+ * The simulation only ever sees the routed `SimulationInput`, which is also
+ * exactly what the replay recorder stores.
+ */
+
+export type InputSourceId = 'REPLAY' | 'BOT' | 'TOUCH' | 'EYE' | 'GAMEPAD' | 'KEYBOARD' | 'MOUSE';
+
+export type FlightActions = Partial<Record<FlightAction, boolean>>;
+
+export interface SourceReading extends SimulationInput {
+  activeAt: number; // Last deliberate steering (ms, same clock as `read`), 0 if never
+  holding: boolean; // Steers regardless of recency
+}
+
+export interface InputSource {
+  readonly id: InputSourceId;
+  read(now: number): SourceReading | null; // null: nothing to contribute this tick
+}
+
+// Earlier wins a tie
+export const SOURCE_PRIORITY: InputSourceId[] = ['REPLAY', 'BOT', 'TOUCH', 'EYE', 'GAMEPAD', 'KEYBOARD', 'MOUSE'];
+
+const FLIGHT_ACTIONS: FlightAction[] = ['MOVE_UP', 'MOVE_DOWN', 'MOVE_LEFT', 'MOVE_RIGHT', 'FOCUS', 'SECONDARY'];
+
+const REST_TARGET: Position = { x: CANVAS_WIDTH / 2, y: CANVAS_HEIGHT - 100 }; // Where the ship starts
+
+const zero = (): Position => ({ x: 0, y: 0 });
+
+const mergeActions = (readings: SourceReading[]): FlightActions => {
+  const actions: FlightActions = {};
+  readings.forEach(reading => {
+    FLIGHT_ACTIONS.forEach(action => {
+      if (reading.actions[action]) actions[action] = true;
+    });
+  });
+  return actions;
+};
+
+// Page pixels to canvas space
+export const pageToCanvas = (canvas: HTMLCanvasElement, x: number, y: number): Position => {
+  const rect = canvas.getBoundingClientRect();
+  return { x: (x - rect.left) * (canvas.width / rect.width), y: (y - rect.top) * (canvas.height / rect.height) };
+};
+
+export class InputRouter {
+  steering: InputSourceId | null = null; // Who steered the last command
+
+  constructor(private sources: InputSource[]) {}
+
+  command(now: number): SimulationInput {
+    const readings = this.sources
+      .map(source => ({ id: source.id, reading: source.read(now) }))
+      .filter((r): r is { id: InputSourceId; reading: SourceReading } => r.reading !== null)
+      .sort((a, b) => SOURCE_PRIORITY.indexOf(a.id) - SOURCE_PRIORITY.indexOf(b.id));
+
+    const steer = readings.find(r => r.reading.holding) ||
+      readings
+        .filter(r => r.reading.activeAt > 0)
+        .reduce<typeof readings[number] | null>((best, r) => !best || r.reading.activeAt > best.reading.activeAt ? r : best, null);
+    this.steering = steer ? steer.id : null;
+
+    const actions = mergeActions(readings.map(r => r.reading));
+    if (!steer) return { mode: 'MOUSE', target: { ...REST_TARGET }, direction: zero(), actions };
+    const { mode, target, direction } = steer.reading;
+    return { mode, target: { ...target }, direction: { ...direction }, actions };
+  }
+}
+
+export class MouseSource implements InputSource {
+  readonly id = 'MOUSE';
+  private target: Position = { ...REST_TARGET };
+  private activeAt = 0;
+
+  constructor(private canvas: HTMLCanvasElement) {}
+
+  attach(): Unsubscribe {
+    const handleMouseMove = (e: MouseEvent) => {
+      this.target = pageToCanvas(this.canvas, e.clientX, e.clientY);
+      this.activeAt = performance.now();
+    };
+    window.addEventListener('mousemove', handleMouseMove);
+    return () => window.removeEventListener('mousemove', handleMouseMove);
+  }
+
+  // Steers from the first move until another source is used
+  read(): SourceReading {
+    return { mode: 'MOUSE', target: this.target, direction: zero(), actions: {}, activeAt: this.activeAt, holding: false };
+  }
+}
+
+export class KeyboardSource implements InputSource {
+  readonly id = 'KEYBOARD';
+  private keys: { [code: string]: boolean } = {};
+  private activeAt = 0;
+
+  // `capturing` says when bound keys should be kept from the page (scrolling, focused buttons)
+  constructor(public bindings: KeyBindings, private capturing: () => boolean) {}
+
+  attach(): Unsubscribe {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      this.keys[e.code] = true;
+      const action = actionFor(this.bindings, e.code);
+      if (action && this.capturing()) e.preventDefault();
+      if (action && MOVE_ACTIONS.includes(action)) this.activeAt = performance.now();
+    };
+    const handleKeyUp = (e: KeyboardEvent) => { this.keys[e.code] = false; };
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  }
+
+  read(): SourceReading {
+    const held = heldActions(this.bindings, this.keys);
+    const actions: FlightActions = {};
+    FLIGHT_ACTIONS.forEach(action => {
+      if (held[action]) actions[action] = true;
+    });
+    return { mode: 'KEYBOARD', target: zero(), direction: zero(), actions, activeAt: this.activeAt, holding: false };
+  }
+}
+
+export class GamepadSource implements InputSource {
+  readonly id = 'GAMEPAD';
+  private activeAt = 0;
+
+  constructor(private gamepad: GamepadInput) {}
+
+  read(now: number): SourceReading {
+    const stick = this.gamepad.stick;
+    if (stick.x || stick.y) this.activeAt = now;
+    return {
+      mode: 'GAMEPAD', target: zero(), direction: stick, actions: this.gamepad.isHeld('SECONDARY') ? { SECONDARY: true } : {},
+      activeAt: this.activeAt, holding: false
+    };
+  }
+}
+
+export class TouchSource implements InputSource {
+  readonly id = 'TOUCH';
+  private activeAt = 0;
+
+  constructor(private touch: TouchInput) {}
+
+  // A drag targets a position; the virtual stick is a direction like a pad's
+  read(now: number): SourceReading {
+    const touch = this.touch;
+    if (touch.engaged) this.activeAt = now;
+    const stick = touch.steering === 'STICK';
+    return {
+      mode: stick ? 'GAMEPAD' : 'TOUCH', target: stick ? zero() : touch.target, direction: stick ? touch.stick : zero(), actions: touch.isHeld('SECONDARY') ? { SECONDARY: true } : {},
+      activeAt: this.activeAt, holding: touch.engaged
+    };
+  }
+}
+
+export class EyeSource implements InputSource {
+  readonly id = 'EYE';
+  point: Position | null = null; // Last steering point in canvas space
+
+  constructor(private gaze: GazeTracker, private canvas: HTMLCanvasElement) {}
+
+  // Holds control while the tracker follows a face; a lost gaze hands it back
+  read(now: number): SourceReading | null {
+    const target = this.gaze.target;
+    if (!target || this.gaze.status !== 'TRACKING') return null;
+    this.point = pageToCanvas(this.canvas, target.x, target.y);
+    return { mode: 'EYE', target: this.point, direction: zero(), actions: {}, activeAt: now, holding: true };
+  }
+}
+
+// Plays recorded frames back; the owner applies `pending` actions and calls `advance` after each step
+export class ReplaySource implements InputSource {
+  readonly id = 'REPLAY';
+  cursor = 0;
+
+  constructor(readonly frames: ReplayFrame[]) {}
+
+  get done(): boolean {
+    return this.cursor >= this.frames.length;
+  }
+
+  // Recorded actions (armory purchases) due before this tick's input
+  get pending(): ReplayAction[] {
+    return this.frames[this.cursor]?.actions || [];
+  }
+
+  read(): SourceReading | null {
+    const frame = this.frames[this.cursor];
+    return frame ? { ...frame.input, activeAt: 0, holding: true } : null;
+  }
+
+  advance() {
+    this.cursor++;
+  }
+}
+
+const BOT_ALTITUDE = CANVAS_HEIGHT - 100;
+const DODGE_RANGE = 160; // How far above the ship incoming rounds are watched
+const DODGE_WIDTH = 40;
+const DODGE_STEP = 90;
+const CROWD = 4; // Enemies on screen before the bot spends secondary ammo
+
+/**
+ * Scripted pilot for benchmarks, attract loops and tests. Lines up under the
+ * lowest hostile, sidesteps enemy rounds closing in from above and fires the
+ * secondary into crowds and bosses. Reads only simulation state, so a seed
+ * flown by the bot plays out the same every time.
+ */
+export class BotSource implements InputSource {
+  readonly id = 'BOT';
+
+  constructor(private sim: Simulation) {}
+
+  read(): SourceReading {
+    const sim = this.sim;
+    const player = sim.player;
+    const enemies = sim.enemies.filter(e => e.active && e.pos.y > 0);
+
+    const prey = enemies.reduce<typeof enemies[number] | null>((lowest, e) => !lowest || e.pos.y > lowest.pos.y ? e : lowest, null);
+    let x = prey ? prey.pos.x : CANVAS_WIDTH / 2;
+
+    const threat = sim.projectiles
+      .filter(p => p.active && p.owner === 'enemy' &&
+        p.pos.y < player.pos.y && player.pos.y - p.pos.y < DODGE_RANGE && Math.abs(p.pos.x - player.pos.x) < DODGE_WIDTH)
+      .reduce<typeof sim.projectiles[number] | null>((nearest, p) => !nearest || p.pos.y > nearest.pos.y ? p : nearest, null);
+    if (threat) x = player.pos.x + (threat.pos.x >= player.pos.x ? -DODGE_STEP : DODGE_STEP);
+
+    return {
+      mode: 'MOUSE',
+      target: { x: Math.max(20, Math.min(CANVAS_WIDTH - 20, x)), y: BOT_ALTITUDE },
+      direction: zero(),
+      actions: sim.boss || enemies.length >= CROWD ? { SECONDARY: true } : {},
+      activeAt: sim.time,
+      holding: true
+    };
+  }
+}
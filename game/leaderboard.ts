@@ -0,0 +1,105 @@
+import { GameStats } from '../types';
+import { RunRecord } from './profile';
+import { isRecord, hasNumbers } from './guards';
+
+/**
+ * Local leaderboard.
+ *
+ * Every finished run on this machine is kept here, tagged with the pilot's
+ * callsign, so several pilots can share one browser. Exported files can be
+ * merged into another machine's board; entries are keyed by `id`, so merging
+ * the same file twice is harmless.
+ */
+export const LEADERBOARD_VERSION = 1;
+
+const STORAGE_KEY = 'astrowing.leaderboard';
+const MAX_ENTRIES = 200;
+
+// Stats the board sorts by and the run breakdown shows
+const STAT_FIELDS = ['score', 'wave', 'enemiesDestroyed', 'shotsFired', 'shotsHit', 'timeSurvived', 'weaponLevel'];
+
+export interface LeaderboardEntry extends RunRecord {
+  id: string;
+  callsign: string;
+}
+
+export type LeaderboardSort = 'score' | 'wave' | 'kills' | 'accuracy' | 'time' | 'date';
+
+export const LEADERBOARD_SORTS: LeaderboardSort[] = ['score', 'wave', 'kills', 'accuracy', 'time', 'date'];
+
+export const accuracyOf = (stats: GameStats) =>
+  stats.shotsFired > 0 ? Math.round((stats.shotsHit / stats.shotsFired) * 100) : 0;
+
+const SORT_VALUE: Record<LeaderboardSort, (entry: LeaderboardEntry) => number> = {
+  score: e => e.stats.score,
+  wave: e => e.stats.wave,
+  kills: e => e.stats.enemiesDestroyed,
+  accuracy: e => accuracyOf(e.stats),
+  time: e => e.stats.timeSurvived,
+  date: e => e.finishedAt
+};
+
+export const createEntry = (callsign: string, run: RunRecord): LeaderboardEntry => ({
+  ...run,
+  callsign,
+  id: `${callsign}-${run.seed}-${run.finishedAt}`
+});
+
+// Highest first; ties go to the earlier run
+export const sortEntries = (entries: LeaderboardEntry[], sort: LeaderboardSort) =>
+  [...entries].sort((a, b) => SORT_VALUE[sort](b) - SORT_VALUE[sort](a) || a.finishedAt - b.finishedAt);
+
+// Adds entries not already on the board, keeping the top scores when it overflows
+export const mergeEntries = (board: LeaderboardEntry[], incoming: LeaderboardEntry[]) => {
+  const byId = new Map(board.map(e => [e.id, e]));
+  incoming.forEach(e => { if (!byId.has(e.id)) byId.set(e.id, e); });
+  return sortEntries([...byId.values()], 'score').slice(0, MAX_ENTRIES);
+};
+
+export const serializeLeaderboard = (entries: LeaderboardEntry[]): string =>
+  JSON.stringify({ version: LEADERBOARD_VERSION, entries });
+
+export const parseLeaderboard = (text: string): LeaderboardEntry[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error('Leaderboard file is not valid JSON');
+  }
+
+  if (!isRecord(data)) throw new Error('Leaderboard file is empty');
+  if (data.version !== LEADERBOARD_VERSION) {
+    throw new Error(`Unsupported leaderboard version ${data.version} (expected ${LEADERBOARD_VERSION})`);
+  }
+  if (!Array.isArray(data.entries)) throw new Error('Leaderboard file has no entries');
+  data.entries.forEach((e: unknown, i: number) => {
+    if (!isRecord(e) || typeof e.id !== 'string' || typeof e.callsign !== 'string' || typeof e.seed !== 'number' ||
+        typeof e.script !== 'string' || typeof e.finishedAt !== 'number' || !hasNumbers(e.stats, ...STAT_FIELDS) ||
+        !(e.stats.secondary == null || isRecord(e.stats.secondary))) {
+      throw new Error(`Leaderboard entry ${i + 1} is malformed`);
+    }
+  });
+
+  return data.entries as LeaderboardEntry[];
+};
+
+export const loadLeaderboard = (): LeaderboardEntry[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? parseLeaderboard(stored) : [];
+  } catch (e) {
+    console.error("Leaderboard load failed", e);
+    return [];
+  }
+};
+
+export const saveLeaderboard = (entries: LeaderboardEntry[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, serializeLeaderboard(entries));
+  } catch (e) {
+    console.error("Leaderboard save failed", e);
+  }
+};
+
+export const leaderboardFileName = () =>
+  `astrowing-leaderboard-${new Date().toISOString().slice(0, 10)}.json`;
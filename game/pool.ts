@@ -0,0 +1,60 @@
+import { Entity } from '../types';
+
+// What to do when every slot is live: reuse the oldest entity or refuse the spawn
+export type PoolOverflow = 'recycle-oldest' | 'drop';
+
+/**
+ * Fixed-capacity entity storage. All slots are allocated up front and handed
+ * out from a free list, so spawning and despawning never allocate. `live`
+ * holds the active entities in spawn order and is compacted in place by
+ * `sweep`, which callers run once per tick after flagging `active = false`.
+ */
+export class EntityPool<T extends Entity> {
+  readonly live: T[] = [];
+  private free: T[] = [];
+
+  constructor(readonly capacity: number, create: () => T, private overflow: PoolOverflow) {
+    for (let i = 0; i < capacity; i++) this.free.push(create());
+  }
+
+  // Returns a slot for the caller to fully re-initialise, or null if full and dropping
+  acquire(): T | null {
+    let slot = this.free.pop();
+    if (!slot) {
+      if (this.overflow === 'drop' || this.live.length === 0) return null;
+      slot = this.live.shift()!; // Oldest first
+    }
+    slot.active = true;
+    this.live.push(slot);
+    return slot;
+  }
+
+  sweep() {
+    let kept = 0;
+    for (let i = 0; i < this.live.length; i++) {
+      const entity = this.live[i];
+      if (entity.active) {
+        this.live[kept++] = entity;
+      } else {
+        this.free.push(entity);
+      }
+    }
+    this.live.length = kept;
+  }
+
+  clear() {
+    this.live.forEach(entity => {
+      entity.active = false;
+      this.free.push(entity);
+    });
+    this.live.length = 0;
+  }
+
+  // Replaces the live list with saved entities, which take the place of free slots
+  restore(entities: T[]) {
+    this.clear();
+    const count = Math.min(entities.length, this.capacity);
+    this.free.length = this.capacity - count;
+    for (let i = 0; i < count; i++) this.live.push(entities[i]);
+  }
+}
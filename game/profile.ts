@@ -0,0 +1,190 @@
+import { GameStats } from '../types';
+import { DEFAULT_WAVE_SCRIPT, WAVE_SCRIPTS } from './waves';
+import { CommandProviderId, COMMAND_PROVIDERS } from '../services/commandProvider';
+import { KeyBindings, DEFAULT_BINDINGS, normalizeBindings } from './controls';
+import { TouchSteering } from './touch';
+import { GazeFilterId, GAZE_FILTERS } from './gaze';
+import { MixerSettings, DEFAULT_MIXER, normalizeMixer } from './audio';
+import { JsonRecord, isRecord, isRecordArray, fieldOf } from './guards';
+
+/**
+ * Pilot profile, persisted across sessions.
+ *
+ * The profile is a single JSON document in localStorage. Every stored copy
+ * carries the schema `version` it was written with; on load it is run through
+ * `MIGRATIONS` one version at a time until it reaches `PROFILE_VERSION`, then
+ * missing fields are filled from defaults. Bump the version and add a
+ * migration whenever a field is renamed, removed or changes meaning; purely
+ * additive fields only need a default.
+ */
+export const PROFILE_VERSION = 2;
+
+const STORAGE_KEY = 'astrowing.profile';
+const MAX_BEST_RUNS = 10;
+const MAX_CALLSIGN_LENGTH = 12;
+
+// Lifetime totals of the summable GameStats fields, plus personal bests
+export interface LifetimeStats {
+  runs: number;
+  score: number;
+  enemiesDestroyed: number;
+  shotsFired: number;
+  shotsHit: number;
+  timeSurvived: number; // seconds
+  bestScore: number;
+  bestWave: number;
+}
+
+export interface RunRecord {
+  seed: number;
+  script: string;
+  rank: string; // From the debrief
+  stats: GameStats;
+  finishedAt: number;
+}
+
+export interface PilotSettings {
+  eyeTracking: boolean;
+  script: string; // Last selected mission
+  commentary: CommandProviderId;
+  bindings: KeyBindings;
+  touchSteering: TouchSteering;
+  gazeFilter: GazeFilterId;
+  audio: MixerSettings;
+}
+
+export interface PilotProfile {
+  version: number;
+  callsign: string;
+  createdAt: number;
+  lifetime: LifetimeStats;
+  bestRuns: RunRecord[]; // Highest score first
+  unlocks: string[]; // Armory item ids in the order this pilot first bought or flew them
+  settings: PilotSettings;
+}
+
+// Each entry upgrades a profile written at that version to the next one
+const MIGRATIONS: Record<number, (data: JsonRecord) => JsonRecord> = {
+  // v1 never filled `unlocks`; seed it with the secondaries flown in the best runs
+  1: profile => {
+    const runs = isRecordArray(profile.bestRuns) ? profile.bestRuns : [];
+    const flown = runs.map(run => fieldOf(fieldOf(run.stats, 'secondary'), 'type')).filter(id => typeof id === 'string');
+    return { ...profile, unlocks: [...new Set(flown)] };
+  }
+};
+
+export const createProfile = (callsign = 'ROOKIE'): PilotProfile => ({
+  version: PROFILE_VERSION,
+  callsign,
+  createdAt: Date.now(),
+  lifetime: {
+    runs: 0, score: 0, enemiesDestroyed: 0, shotsFired: 0, shotsHit: 0, timeSurvived: 0, bestScore: 0, bestWave: 0
+  },
+  bestRuns: [],
+  unlocks: [],
+  settings: { eyeTracking: false, script: DEFAULT_WAVE_SCRIPT, commentary: 'gemini', bindings: DEFAULT_BINDINGS, touchSteering: 'DRAG', gazeFilter: 'ONE_EURO', audio: DEFAULT_MIXER }
+});
+
+export const formatCallsign = (value: string) =>
+  value.toUpperCase().replace(/[^A-Z0-9 _-]/g, '').slice(0, MAX_CALLSIGN_LENGTH);
+
+// Brings stored data of any known version up to the current schema
+export const migrateProfile = (data: unknown): PilotProfile => {
+  if (!isRecord(data)) throw new Error('Profile is empty');
+  if (typeof data.version !== 'number') throw new Error('Profile has no schema version');
+  if (data.version > PROFILE_VERSION) {
+    throw new Error(`Profile version ${data.version} is newer than this build supports (${PROFILE_VERSION})`);
+  }
+
+  let profile = data;
+  for (let version = data.version; version < PROFILE_VERSION; version++) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`No migration from profile version ${version}`);
+    profile = { ...migrate(profile), version: version + 1 };
+  }
+
+  const defaults = createProfile();
+  const stored = isRecord(profile.settings) ? profile.settings : {};
+  const settings: PilotSettings = {
+    eyeTracking: typeof stored.eyeTracking === 'boolean' ? stored.eyeTracking : defaults.settings.eyeTracking,
+    script: typeof stored.script === 'string' && WAVE_SCRIPTS[stored.script] ? stored.script : defaults.settings.script,
+    commentary: typeof stored.commentary === 'string' && stored.commentary in COMMAND_PROVIDERS
+      ? stored.commentary as CommandProviderId : defaults.settings.commentary,
+    bindings: normalizeBindings(stored.bindings),
+    touchSteering: stored.touchSteering === 'DRAG' || stored.touchSteering === 'STICK' ? stored.touchSteering : defaults.settings.touchSteering,
+    gazeFilter: typeof stored.gazeFilter === 'string' && stored.gazeFilter in GAZE_FILTERS
+      ? stored.gazeFilter as GazeFilterId : defaults.settings.gazeFilter,
+    audio: normalizeMixer(stored.audio)
+  };
+  const lifetime = { ...defaults.lifetime };
+  (Object.keys(lifetime) as (keyof LifetimeStats)[]).forEach(key => {
+    const value = fieldOf(profile.lifetime, key);
+    if (typeof value === 'number') lifetime[key] = value;
+  });
+  return {
+    ...defaults,
+    callsign: formatCallsign(String(profile.callsign || '')) || defaults.callsign,
+    createdAt: typeof profile.createdAt === 'number' ? profile.createdAt : defaults.createdAt,
+    lifetime,
+    bestRuns: isRecordArray(profile.bestRuns) ? profile.bestRuns as unknown as RunRecord[] : [],
+    unlocks: Array.isArray(profile.unlocks) ? [...new Set(profile.unlocks.filter((id): id is string => typeof id === 'string'))] : [],
+    settings
+  };
+};
+
+// Folds a finished run into the lifetime totals and best runs; `unlocked` ids new to the pilot join their unlocks
+export const recordRun = (profile: PilotProfile, run: RunRecord, unlocked: string[] = []): PilotProfile => {
+  const { lifetime } = profile;
+  const { stats } = run;
+  return {
+    ...profile,
+    lifetime: {
+      runs: lifetime.runs + 1,
+      score: lifetime.score + stats.score,
+      enemiesDestroyed: lifetime.enemiesDestroyed + stats.enemiesDestroyed,
+      shotsFired: lifetime.shotsFired + stats.shotsFired,
+      shotsHit: lifetime.shotsHit + stats.shotsHit,
+      timeSurvived: lifetime.timeSurvived + stats.timeSurvived,
+      bestScore: Math.max(lifetime.bestScore, stats.score),
+      bestWave: Math.max(lifetime.bestWave, stats.wave)
+    },
+    bestRuns: [...profile.bestRuns, run]
+      .sort((a, b) => b.stats.score - a.stats.score)
+      .slice(0, MAX_BEST_RUNS),
+    unlocks: [...new Set([...profile.unlocks, ...unlocked])]
+  };
+};
+
+// A missing or unreadable profile starts a fresh one rather than blocking the game
+export const loadProfile = (): PilotProfile => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? migrateProfile(JSON.parse(stored)) : createProfile();
+  } catch (e) {
+    console.error("Profile load failed", e);
+    return createProfile();
+  }
+};
+
+export const saveProfile = (profile: PilotProfile) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, serializeProfile(profile));
+  } catch (e) {
+    console.error("Profile save failed", e);
+  }
+};
+
+export const serializeProfile = (profile: PilotProfile): string => JSON.stringify(profile);
+
+export const parseProfile = (text: string): PilotProfile => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error('Profile file is not valid JSON');
+  }
+  return migrateProfile(data);
+};
+
+export const profileFileName = (profile: PilotProfile) =>
+  `astrowing-pilot-${profile.callsign.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.profile.json`;
@@ -0,0 +1,101 @@
+import { GameStats } from '../types';
+import { MAX_WEAPON_LEVEL } from './weapons';
+
+/**
+ * Deterministic performance scoring.
+ *
+ * A finished run is graded from its final `GameStats` alone, including the
+ * event tally, so the same run always earns the same rank. Four categories
+ * are scored 0-100 and weighted into an overall rating, which picks the
+ * rank tier. Highlights call out notable moments for the debrief; the
+ * commentary provider only writes flavour text around this report.
+ */
+
+export type GradeCategory = 'aggression' | 'precision' | 'survival' | 'economy';
+
+export type Grade = 'S' | 'A' | 'B' | 'C' | 'D';
+
+export interface CategoryGrade {
+  score: number; // 0-100
+  grade: Grade;
+}
+
+export interface PerformanceReport {
+  rank: string;
+  rating: number; // 0-100, weighted from the category scores
+  grades: Record<GradeCategory, CategoryGrade>;
+  highlights: string[]; // Most notable first
+}
+
+export const GRADE_CATEGORIES: GradeCategory[] = ['aggression', 'precision', 'survival', 'economy'];
+
+const WEIGHTS: Record<GradeCategory, number> = { aggression: 0.3, precision: 0.2, survival: 0.35, economy: 0.15 };
+
+// Full marks at these levels
+const FULL_KILLS_PER_MINUTE = 60;
+const MIN_MINUTES = 3; // Shorter runs are rated as if they lasted this long
+const FULL_ACCURACY = 0.5; // Rounds on target; spread volleys rarely land every round
+const FULL_WAVE = 11;
+
+// Highest first
+const RANK_TIERS: { rank: string; minRating: number }[] = [
+  { rank: 'LEGEND', minRating: 90 },
+  { rank: 'ACE', minRating: 75 },
+  { rank: 'VETERAN', minRating: 55 },
+  { rank: 'PILOT', minRating: 40 },
+  { rank: 'ROOKIE', minRating: 20 },
+  { rank: 'CADET', minRating: 0 }
+];
+
+const GRADE_TIERS: { grade: Grade; minScore: number }[] = [
+  { grade: 'S', minScore: 90 },
+  { grade: 'A', minScore: 75 },
+  { grade: 'B', minScore: 55 },
+  { grade: 'C', minScore: 35 },
+  { grade: 'D', minScore: 0 }
+];
+
+const MAX_HIGHLIGHTS = 3;
+
+const percent = (fraction: number) => Math.round(Math.max(0, Math.min(1, fraction)) * 100);
+
+const gradeOf = (score: number): CategoryGrade => ({
+  score,
+  grade: GRADE_TIERS.find(tier => score >= tier.minScore)!.grade
+});
+
+export const evaluateRun = (stats: GameStats): PerformanceReport => {
+  const events = stats.events || {};
+  const count = (event: string) => events[event] || 0;
+  const minutes = stats.timeSurvived / 60;
+  const accuracy = stats.shotsFired > 0 ? stats.shotsHit / stats.shotsFired : 0;
+  const spent = stats.creditsSpent || 0;
+  const earned = stats.credits + spent;
+
+  const grades: Record<GradeCategory, CategoryGrade> = {
+    aggression: gradeOf(percent(stats.enemiesDestroyed / Math.max(minutes, MIN_MINUTES) / FULL_KILLS_PER_MINUTE)),
+    precision: gradeOf(percent(accuracy / FULL_ACCURACY)),
+    survival: gradeOf(percent((stats.wave - 1) / (FULL_WAVE - 1))),
+    economy: gradeOf(percent(earned > 0 ? spent / earned : 0))
+  };
+  const rating = Math.round(GRADE_CATEGORIES.reduce((sum, category) => sum + grades[category].score * WEIGHTS[category], 0));
+
+  // Candidates in priority order
+  const highlights: string[] = [];
+  const bosses = count('BOSS_DEFEATED');
+  if (bosses > 0) highlights.push(bosses === 1 ? 'Destroyed a capital ship' : `Destroyed ${bosses} capital ships`);
+  if (count('DAMAGE_TAKEN') === 0 && stats.timeSurvived >= 60) highlights.push('Took no damage for the whole sortie');
+  if (stats.enemiesDestroyed >= 100) highlights.push(`${stats.enemiesDestroyed} confirmed kills`);
+  if (grades.precision.grade === 'S') highlights.push(`Sharpshooter: ${Math.round(accuracy * 100)}% of rounds on target`);
+  if (grades.aggression.grade === 'S') highlights.push(`Relentless: ${Math.round(stats.enemiesDestroyed / minutes)} kills per minute`);
+  if (stats.weaponLevel >= MAX_WEAPON_LEVEL) highlights.push('Primary weapon at full power');
+  if (count('WAVE_CLEARED') >= 5) highlights.push(`Cleared ${count('WAVE_CLEARED')} waves`);
+  if (count('BOMB_DETONATED') >= 3) highlights.push(`Detonated ${count('BOMB_DETONATED')} nova bombs`);
+
+  return {
+    rank: RANK_TIERS.find(tier => rating >= tier.minRating)!.rank,
+    rating,
+    grades,
+    highlights: highlights.slice(0, MAX_HIGHLIGHTS)
+  };
+};
@@ -0,0 +1,189 @@
+import { GameStats } from '../types';
+import { FlightAction, InputMode, SimulationInput, UpgradeType } from './simulation';
+import { DEFAULT_WAVE_SCRIPT, WAVE_SCRIPTS } from './waves';
+import { isRecord } from './guards';
+
+/**
+ * Replay file format.
+ *
+ * A run is fully determined by its seed plus the exact input the simulation
+ * consumed on every fixed tick, so that is all we store. Ticks are kept as
+ * compact number tuples and identical consecutive ticks are run-length
+ * encoded:
+ *
+ *   [repeat, mode, x, y, actionMask]
+ *
+ * where x, y is the input's `direction` for GAMEPAD ticks and its `target`
+ * otherwise; the other one is zero on playback.
+ *
+ * Version 1 also stored a variable frame delta per tick; those runs cannot be
+ * reproduced by the fixed-timestep simulation and are rejected.
+ *
+ * Input is quantized *before* it reaches the live simulation (see
+ * `ReplayRecorder.capture`) so playback feeds it bit-identical values.
+ * Gamepad directions are stick deflections rather than canvas positions, so
+ * they keep a finer step.
+ */
+export const REPLAY_VERSION = 2;
+
+export type ReplayActionData =
+  | { type: 'PURCHASE'; item: UpgradeType }
+  | { type: 'PAUSE' | 'RESUME' | 'SHOP_OPEN' | 'SHOP_CLOSE' };
+
+export type ReplayAction = ReplayActionData & { tick: number };
+
+export type ReplayTick = [number, number, number, number, number];
+
+export interface Replay {
+  version: number;
+  seed: number;
+  script?: string; // Wave script id; older files ran the default endless script
+  recordedAt: number;
+  ticks: ReplayTick[];
+  actions: ReplayAction[];
+  stats?: GameStats; // Final stats, for display before playback
+}
+
+export interface ReplayFrame {
+  input: SimulationInput;
+  actions: ReplayAction[];
+}
+
+const INPUT_MODES: InputMode[] = ['MOUSE', 'KEYBOARD', 'EYE', 'GAMEPAD', 'TOUCH'];
+
+// One bit per held action. Files from before rebindable controls stored raw keys:
+// bits 0-3 were WASD and 4-7 the arrows, so the arrow bits still decode as moves.
+const ACTION_BITS: FlightAction[] = [
+  'MOVE_UP', 'MOVE_LEFT', 'MOVE_DOWN', 'MOVE_RIGHT',
+  'MOVE_UP', 'MOVE_LEFT', 'MOVE_DOWN', 'MOVE_RIGHT',
+  'SECONDARY', 'FOCUS'
+];
+
+const quantize = (value: number, step: number) => Math.round(value / step) * step;
+
+const encodeActions = (actions: SimulationInput['actions']) =>
+  ACTION_BITS.reduce((mask, action, i) => (actions[action] && ACTION_BITS.indexOf(action) === i ? mask | (1 << i) : mask), 0);
+
+const decodeActions = (mask: number) => {
+  const actions: SimulationInput['actions'] = {};
+  ACTION_BITS.forEach((action, i) => { if (mask & (1 << i)) actions[action] = true; });
+  return actions;
+};
+
+// Only one of target and direction steers in any mode
+const steersByDirection = (mode: InputMode) => mode === 'GAMEPAD';
+
+const decodeInput = (tick: ReplayTick): SimulationInput => {
+  const mode = INPUT_MODES[tick[1]] || 'MOUSE';
+  const point = { x: tick[2], y: tick[3] };
+  const byDirection = steersByDirection(mode);
+  return {
+    mode,
+    target: byDirection ? { x: 0, y: 0 } : point,
+    direction: byDirection ? point : { x: 0, y: 0 },
+    actions: decodeActions(tick[4])
+  };
+};
+
+export class ReplayRecorder {
+  private ticks: ReplayTick[] = [];
+  private actions: ReplayAction[] = [];
+  private tickCount = 0;
+
+  constructor(private seed: number, private script: string = DEFAULT_WAVE_SCRIPT) {}
+
+  // Continues recording a run saved mid-way
+  static resume(replay: Replay): ReplayRecorder {
+    const recorder = new ReplayRecorder(replay.seed, replay.script);
+    recorder.ticks = replay.ticks.map(t => [...t] as ReplayTick);
+    recorder.actions = [...replay.actions];
+    recorder.tickCount = replay.ticks.reduce((count, t) => count + t[0], 0);
+    return recorder;
+  }
+
+  // Quantizes one tick of input, records it and returns what the simulation must step with
+  capture(input: SimulationInput): SimulationInput {
+    const byDirection = steersByDirection(input.mode);
+    const point = byDirection ? input.direction : input.target;
+    const step = byDirection ? 0.01 : 0.1;
+    const tick: ReplayTick = [
+      1,
+      Math.max(0, INPUT_MODES.indexOf(input.mode)),
+      quantize(point.x, step),
+      quantize(point.y, step),
+      encodeActions(input.actions)
+    ];
+
+    const last = this.ticks[this.ticks.length - 1];
+    if (last && last.every((v, i) => i === 0 || v === tick[i])) {
+      last[0]++;
+    } else {
+      this.ticks.push(tick);
+    }
+    this.tickCount++;
+
+    return decodeInput(tick);
+  }
+
+  // Actions apply before the next captured tick
+  action(action: ReplayActionData) {
+    this.actions.push({ ...action, tick: this.tickCount });
+  }
+
+  finish(stats?: GameStats): Replay {
+    return {
+      version: REPLAY_VERSION,
+      seed: this.seed,
+      script: this.script,
+      recordedAt: Date.now(),
+      ticks: this.ticks.map(t => [...t] as ReplayTick),
+      actions: [...this.actions],
+      stats
+    };
+  }
+}
+
+// Expands the run-length encoded ticks into one frame per simulation step
+export const decodeReplay = (replay: Replay): ReplayFrame[] => {
+  const frames: ReplayFrame[] = [];
+  replay.ticks.forEach(tick => {
+    for (let i = 0; i < tick[0]; i++) {
+      frames.push({ input: decodeInput(tick), actions: [] });
+    }
+  });
+  replay.actions.forEach(action => {
+    // Actions recorded after the last tick (e.g. a purchase then death) are dropped
+    if (frames[action.tick]) frames[action.tick].actions.push(action);
+  });
+  return frames;
+};
+
+export const serializeReplay = (replay: Replay): string => JSON.stringify(replay);
+
+export const parseReplay = (text: string): Replay => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error('Replay file is not valid JSON');
+  }
+
+  if (!isRecord(data)) throw new Error('Replay file is empty');
+  if (data.version !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version ${data.version} (expected ${REPLAY_VERSION})`);
+  }
+  if (typeof data.seed !== 'number' || !Array.isArray(data.ticks) || !Array.isArray(data.actions)) {
+    throw new Error('Replay file is missing seed, ticks or actions');
+  }
+  if (!data.ticks.every((t: unknown) => Array.isArray(t) && t.length === 5 && t.every(v => typeof v === 'number'))) {
+    throw new Error('Replay file has malformed ticks');
+  }
+  if (data.script !== undefined && (typeof data.script !== 'string' || !WAVE_SCRIPTS[data.script])) {
+    throw new Error(`Replay uses unknown wave script "${data.script}"`);
+  }
+
+  return data as unknown as Replay;
+};
+
+export const replayFileName = (replay: Replay) =>
+  `astrowing-seed-${replay.seed}-${new Date(replay.recordedAt).toISOString().slice(0, 10)}.replay.json`;
@@ -0,0 +1,44 @@
+/**
+ * Seedable PRNG (mulberry32). Gameplay code must draw from one of these
+ * instead of Math.random() so that a seed reproduces a run exactly.
+ */
+export interface Rng {
+  readonly seed: number;
+  next: () => number; // [0, 1)
+  range: (min: number, max: number) => number;
+  int: (maxExclusive: number) => number;
+  getState: () => number; // Resume a stream with createRng(seed, state)
+}
+
+export const MAX_SEED = 99999;
+
+export const createRng = (seed: number, initialState: number = seed): Rng => {
+  let state = initialState >>> 0;
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    seed,
+    next,
+    range: (min, max) => min + next() * (max - min),
+    int: (maxExclusive) => Math.floor(next() * maxExclusive),
+    getState: () => state,
+  };
+};
+
+// Fresh seed for a new run when the pilot did not enter one
+export const randomSeed = (): number => 1 + Math.floor(Math.random() * MAX_SEED);
+
+// Accepts user input like "84213"; returns null for anything unusable
+export const parseSeed = (value: string): number | null => {
+  const trimmed = value.trim();
+  if (!/^\d+$/.test(trimmed)) return null;
+  const seed = parseInt(trimmed, 10);
+  return seed > 0 && seed <= MAX_SEED ? seed : null;
+};
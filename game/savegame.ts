@@ -0,0 +1,75 @@
+import { SimulationSnapshot } from './simulation';
+import { Replay, REPLAY_VERSION } from './replay';
+import { WAVE_SCRIPTS } from './waves';
+import { isRecord } from './guards';
+
+/**
+ * Mid-run save.
+ *
+ * One slot in localStorage holding a simulation snapshot plus the replay
+ * recorded so far, so a resumed run picks up exactly where it stopped and
+ * still downloads as a single replay. Written whenever the run pauses, opens
+ * the armory or the tab is hidden; cleared when the run ends or a new one
+ * starts.
+ */
+export const SAVE_VERSION = 1;
+
+const STORAGE_KEY = 'astrowing.savedRun';
+
+export interface SavedRun {
+  version: number;
+  savedAt: number;
+  snapshot: SimulationSnapshot;
+  replay: Replay;
+}
+
+export const parseSavedRun = (text: string): SavedRun => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error('Saved run is not valid JSON');
+  }
+
+  if (!isRecord(data)) throw new Error('Saved run is empty');
+  if (data.version !== SAVE_VERSION) {
+    throw new Error(`Unsupported save version ${data.version} (expected ${SAVE_VERSION})`);
+  }
+  const { snapshot, replay } = data;
+  if (!isRecord(snapshot) || typeof snapshot.tick !== 'number' || !isRecord(snapshot.player) || !isRecord(snapshot.stats)) {
+    throw new Error('Saved run has no simulation snapshot');
+  }
+  if (typeof snapshot.script !== 'string' || !WAVE_SCRIPTS[snapshot.script]) {
+    throw new Error(`Saved run uses unknown wave script "${snapshot.script}"`);
+  }
+  if (!isRecord(replay) || replay.version !== REPLAY_VERSION || !Array.isArray(replay.ticks)) {
+    throw new Error('Saved run has no usable replay');
+  }
+
+  return data as unknown as SavedRun;
+};
+
+// A corrupt or outdated save is discarded rather than offered
+export const loadSavedRun = (): SavedRun | null => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? parseSavedRun(stored) : null;
+  } catch (e) {
+    console.error("Saved run load failed", e);
+    clearSavedRun();
+    return null;
+  }
+};
+
+export const storeSavedRun = (snapshot: SimulationSnapshot, replay: Replay) => {
+  const saved: SavedRun = { version: SAVE_VERSION, savedAt: Date.now(), snapshot, replay };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+  } catch (e) {
+    console.error("Run save failed", e);
+  }
+};
+
+export const clearSavedRun = () => {
+  localStorage.removeItem(STORAGE_KEY);
+};
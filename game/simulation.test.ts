@@ -0,0 +1,209 @@
+import { describe, it, expect } from 'vitest';
+import { Simulation, SimulationInput, TICK_RATE } from './simulation';
+import { WaveScript, WAVE_SCRIPTS } from './waves';
+import { GameEvent } from './events';
+import { ENEMY_ARCHETYPES, ArchetypeRegistry } from './enemies';
+import { InputRouter, BotSource, ReplaySource } from './input';
+import { ReplayRecorder, decodeReplay, parseReplay, serializeReplay } from './replay';
+
+// Holds the ship where it starts
+const IDLE: SimulationInput = { mode: 'MOUSE', target: { x: 300, y: 700 }, direction: { x: 0, y: 0 }, actions: {} };
+
+// Three drones up front, then a timed wave so advancement doesn't depend on aim
+const DRILL: WaveScript = {
+  id: 'drill',
+  name: 'DRILL',
+  waves: [
+    { name: 'ONE', groups: [{ at: 0, type: 'drone', count: 3, formation: 'line', anchor: 0.5 }], complete: { kind: 'survive', seconds: 2 } },
+    { name: 'TWO', complete: { kind: 'survive', seconds: 60 } }
+  ]
+};
+
+const createSim = (seed = 7) => {
+  const sim = new Simulation(seed, { waveScripts: { ...WAVE_SCRIPTS, drill: DRILL } });
+  sim.reset(seed, 'drill');
+  return sim;
+};
+
+const run = (sim: Simulation, ticks: number): GameEvent[] => {
+  for (let i = 0; i < ticks; i++) sim.step(IDLE);
+  return sim.drainEvents();
+};
+
+// Flies the scripted bot for up to `ticks` steps or until the run ends, passing each input through `each`
+const flyBot = (sim: Simulation, ticks: number, each = (input: SimulationInput) => input) => {
+  const bot = new InputRouter([new BotSource(sim)]);
+  for (let i = 0; i < ticks && !sim.gameOver; i++) sim.step(each(bot.command(i)));
+};
+
+const ofType = <T extends GameEvent['type']>(events: GameEvent[], type: T) =>
+  events.filter((e): e is Extract<GameEvent, { type: T }> => e.type === type);
+
+describe('Simulation', () => {
+  describe('spawning', () => {
+    it('releases a wave group on its first tick', () => {
+      const sim = createSim();
+      const events = run(sim, 1);
+      expect(sim.enemies).toHaveLength(3);
+      expect(ofType(events, 'ENEMY_SPAWNED').map(e => e.archetype)).toEqual(['drone', 'drone', 'drone']);
+    });
+
+    it('trickles enemies in on the endless script', () => {
+      const sim = new Simulation(7);
+      sim.reset();
+      const events = run(sim, 5 * TICK_RATE);
+      expect(ofType(events, 'ENEMY_SPAWNED').length).toBeGreaterThan(0);
+    });
+
+    it('spawns the same enemies for the same seed', () => {
+      const a = new Simulation(42);
+      const b = new Simulation(42);
+      a.reset();
+      b.reset();
+      run(a, 5 * TICK_RATE);
+      run(b, 5 * TICK_RATE);
+      expect(a.enemies.map(e => [e.type, e.pos.x, e.pos.y])).toEqual(b.enemies.map(e => [e.type, e.pos.x, e.pos.y]));
+    });
+
+    it('numbers enemies the same however many particles explosions throw', () => {
+      const spawnedIds = (archetypes: ArchetypeRegistry) => {
+        const sim = new Simulation(11, { archetypes });
+        sim.reset();
+        flyBot(sim, 30 * TICK_RATE);
+        const events = sim.drainEvents();
+        expect(ofType(events, 'ENEMY_KILLED').length).toBeGreaterThan(0);
+        return ofType(events, 'ENEMY_SPAWNED').map(e => e.enemyId);
+      };
+      const sparse: ArchetypeRegistry = Object.fromEntries(
+        Object.entries(ENEMY_ARCHETYPES).map(([id, a]) => [id, { ...a, death: { ...a.death, particles: 1 } }])
+      );
+      expect(spawnedIds(sparse)).toEqual(spawnedIds(ENEMY_ARCHETYPES));
+    });
+  });
+
+  describe('collisions', () => {
+    it('destroys an enemy held in the line of fire', () => {
+      const sim = createSim();
+      run(sim, 1);
+      const target = sim.enemies[0];
+      let events: GameEvent[] = [];
+      for (let i = 0; i < 2 * TICK_RATE && target.active; i++) {
+        target.pos = { x: sim.player.pos.x, y: sim.player.pos.y - 120 };
+        events = events.concat(run(sim, 1));
+      }
+      expect(ofType(events, 'ENEMY_KILLED').map(e => e.enemyId)).toContain(target.id);
+      expect(sim.stats.enemiesDestroyed).toBe(1);
+      expect(sim.stats.shotsHit).toBeGreaterThan(0);
+    });
+
+    it('keeps the player safe while invulnerable', () => {
+      const sim = createSim();
+      run(sim, 1);
+      sim.enemies[0].pos = { ...sim.player.pos };
+      const events = run(sim, 1);
+      expect(ofType(events, 'DAMAGE_TAKEN')).toHaveLength(0);
+      expect(sim.player.shield).toBe(sim.player.maxShield);
+    });
+  });
+
+  describe('shields', () => {
+    // Rams the player with the next drone and returns the damage report
+    const ram = (sim: Simulation) => {
+      sim.enemies[0].pos = { ...sim.player.pos };
+      const [hit] = ofType(run(sim, 1), 'DAMAGE_TAKEN');
+      return hit;
+    };
+
+    it('absorb damage before the hull', () => {
+      const sim = createSim();
+      run(sim, 1);
+      sim.player.invulnerableUntil = 0;
+
+      const first = ram(sim);
+      expect(first.amount).toBe(30);
+      expect(first.hullDamage).toBe(0);
+      expect(sim.player.hp).toBe(sim.player.maxHp);
+      expect(sim.player.shield).toBeCloseTo(20, 0);
+    });
+
+    it('pass the overflow on to the hull once broken', () => {
+      const sim = createSim();
+      run(sim, 1);
+      sim.player.invulnerableUntil = 0;
+      sim.player.shield = 10;
+
+      const hit = ram(sim);
+      expect(hit.hullDamage).toBeCloseTo(20, 0);
+      expect(sim.player.shield).toBe(0);
+      expect(sim.player.hp).toBeCloseTo(sim.player.maxHp - 20, 0);
+    });
+  });
+
+  describe('waves', () => {
+    it('advances once the wave is complete', () => {
+      const sim = createSim();
+      const events = run(sim, 2 * TICK_RATE + 1);
+      expect(ofType(events, 'WAVE_CLEARED')).toEqual([{ type: 'WAVE_CLEARED', wave: 1, name: 'ONE' }]);
+      expect(ofType(events, 'WAVE_STARTED').map(e => e.wave)).toEqual([1, 2]);
+      expect(sim.stats.wave).toBe(2);
+      expect(sim.stats.waveName).toBe('TWO');
+    });
+
+    it('holds the wave until it is complete', () => {
+      const sim = createSim();
+      run(sim, 2 * TICK_RATE - 1);
+      expect(sim.stats.wave).toBe(1);
+    });
+  });
+
+  describe('replays', () => {
+    it('reproduce a recorded run from its seed', () => {
+      const sim = new Simulation(11);
+      sim.reset(11);
+      const recorder = new ReplayRecorder(11);
+      let tick = 0;
+      flyBot(sim, 60 * TICK_RATE, input => {
+        // Armory visits land between ticks, as they do in a live run
+        const offer = tick++ % (5 * TICK_RATE) === 0 && sim.armoryOffers().find(o => o.available);
+        if (offer && sim.purchaseUpgrade(offer.item.id)) recorder.action({ type: 'PURCHASE', item: offer.item.id });
+        return recorder.capture(input);
+      });
+      const replay = parseReplay(serializeReplay(recorder.finish(sim.currentStats())));
+      expect(replay.actions.length).toBeGreaterThan(0);
+
+      const playback = new Simulation(replay.seed);
+      playback.reset(replay.seed, replay.script);
+      const source = new ReplaySource(decodeReplay(replay));
+      const router = new InputRouter([source]);
+      while (!source.done) {
+        source.pending.forEach(action => { if (action.type === 'PURCHASE') playback.purchaseUpgrade(action.item); });
+        playback.step(router.command(0));
+        source.advance();
+      }
+      expect(playback.tick).toBe(sim.tick);
+      expect(playback.currentStats()).toEqual(sim.currentStats());
+      expect(playback.snapshot()).toEqual(sim.snapshot());
+    });
+  });
+
+  describe('snapshots', () => {
+    it('continue identically after a JSON round trip', () => {
+      const sim = new Simulation(11);
+      sim.reset(11);
+      flyBot(sim, 40 * TICK_RATE);
+      expect(sim.gameOver).toBe(false);
+
+      const restored = new Simulation(1);
+      restored.restore(JSON.parse(JSON.stringify(sim.snapshot())));
+      expect(restored.snapshot()).toEqual(sim.snapshot());
+
+      // Both fly on to the end of the run
+      flyBot(sim, 60 * TICK_RATE);
+      flyBot(restored, 60 * TICK_RATE);
+      expect(sim.gameOver).toBe(true);
+      expect(restored.tick).toBe(sim.tick);
+      expect(restored.currentStats()).toEqual(sim.currentStats());
+      expect(restored.snapshot()).toEqual(sim.snapshot());
+    });
+  });
+});
@@ -0,0 +1,1313 @@
+import { Entity, Player, Enemy, Projectile, Particle, GameStats, PowerUp, Position, SecondaryType, PlayerWeapon } from '../types';
+import { Rng, createRng } from './rng';
+import { SpatialHash } from './spatialHash';
+import { EntityPool } from './pool';
+import { GameEvent } from './events';
+import { CombatLedger, TIMELINE_INTERVAL_TICKS, createLedger, recordEvent, recordShots, recordHit, recordDamage, sampleTimeline, shotKey } from './analytics';
+import { ArchetypeRegistry, EnemyArchetype, EnemyMovement, EnemyWeapon, ENEMY_ARCHETYPES, scaleForWave, spawnOrder } from './enemies';
+import { BossRegistry, BossState, BOSSES, BOSS_WARNING_MS } from './bosses';
+import { ArmoryItem, ArmoryItemId, ArmoryContext, ArmoryOffer, ARMORY_ITEMS, ARMORY_CATALOG, armoryOffer, isSecondaryItem } from './armory';
+import { WeaponProjectile, WeaponShot, SECONDARY_WEAPONS, MAX_WEAPON_LEVEL, STARTING_SECONDARY, primaryWeapon } from './weapons';
+import { WaveScript, WaveScriptRegistry, WaveDefinition, SpawnGroup, WAVE_SCRIPTS, DEFAULT_WAVE_SCRIPT, ENTRY_DURATION, waveDefinition, waveName, formationOffsets } from './waves';
+
+export const CANVAS_WIDTH = 600;
+export const CANVAS_HEIGHT = 800;
+const SHIELD_REGEN_PER_SEC = 0.5;
+
+// Fixed simulation tick. All per-step movement constants assume this rate.
+export const TICK_RATE = 60;
+export const TICK_MS = 1000 / TICK_RATE;
+
+export type InputMode = 'MOUSE' | 'KEYBOARD' | 'EYE' | 'GAMEPAD' | 'TOUCH';
+
+export interface SimulationInput {
+  mode: InputMode;
+  target: Position; // Where MOUSE, EYE and TOUCH steer to, in canvas space
+  direction: Position; // Where GAMEPAD steers toward: stick deflection (pad or on-screen stick), each axis -1..1
+  actions: Partial<Record<FlightAction, boolean>>; // Held this tick; keys are mapped to actions by the caller
+}
+
+// Everything the pilot can hold down that the rules react to
+export type FlightAction = 'MOVE_UP' | 'MOVE_DOWN' | 'MOVE_LEFT' | 'MOVE_RIGHT' | 'FOCUS' | 'SECONDARY';
+
+export type UpgradeType = ArmoryItemId;
+
+const FOCUS_SPEED = 0.5; // Movement multiplier while FOCUS is held
+
+// Upper bounds on live entities. Full particle and projectile pools recycle
+// their oldest entity; a full enemy pool skips the spawn.
+export interface PoolCaps {
+  enemies: number;
+  projectiles: number;
+  particles: number;
+}
+
+export const DEFAULT_POOL_CAPS: PoolCaps = { enemies: 128, projectiles: 1024, particles: 2048 };
+
+export interface SimulationOptions {
+  caps?: PoolCaps;
+  archetypes?: ArchetypeRegistry;
+  waveScripts?: WaveScriptRegistry;
+  bosses?: BossRegistry;
+}
+
+// Boss encounter with its registry entry and enemies referenced by id
+interface BossSnapshot extends Omit<BossState, 'definition' | 'core' | 'parts'> {
+  id: string;
+  core: Enemy | null; // Kept whole: a defeated core is no longer in the pool
+  parts: { enemyId: number; offset: Position; shieldsCore: boolean }[];
+}
+
+// Complete run state as plain JSON, see `Simulation.snapshot`
+export interface SimulationSnapshot {
+  seed: number;
+  script: string;
+  rngState: number;
+  fxRngState: number;
+  nextId: number;
+  nextParticleId: number;
+  tick: number;
+  player: Player;
+  enemies: Enemy[];
+  projectiles: Projectile[];
+  particles: Particle[];
+  powerups: PowerUp[];
+  stats: GameStats;
+  purchases: Partial<Record<ArmoryItemId, number>>;
+  shake: number;
+  flash: number;
+  spawnTimer: number;
+  speedBoostUntil: number;
+  gameOver: boolean;
+  waveStartedAt: number;
+  waveKills: number;
+  nextGroup: number;
+  intermissionUntil: number;
+  boss: BossSnapshot | null;
+  ledger: CombatLedger;
+}
+
+const blankEntity = (): Entity => ({
+  id: -1, pos: { x: 0, y: 0 }, prevPos: { x: 0, y: 0 }, vel: { x: 0, y: 0 },
+  width: 0, height: 0, color: '', active: false
+});
+
+const createPlayer = (invulnerableUntil: number): Player => ({
+  id: 0, pos: { x: CANVAS_WIDTH / 2, y: CANVAS_HEIGHT - 100 }, vel: { x: 0, y: 0 },
+  width: 40, height: 40, color: '#0ea5e9', active: true,
+  hp: 100, maxHp: 100, shield: 50, maxShield: 50, lastFired: 0,
+  weaponLevel: 1, speedMultiplier: 1, invulnerableUntil,
+  secondary: STARTING_SECONDARY, secondaryAmmo: SECONDARY_WEAPONS[STARTING_SECONDARY].ammo,
+  secondaryReadyAt: 0, chargeStartedAt: null
+});
+
+const savePosition = (e: Entity) => {
+  if (e.prevPos) {
+    e.prevPos.x = e.pos.x;
+    e.prevPos.y = e.pos.y;
+  } else {
+    e.prevPos = { x: e.pos.x, y: e.pos.y };
+  }
+};
+
+const savePositions = (list: Entity[]) => {
+  for (let i = 0; i < list.length; i++) savePosition(list[i]);
+};
+
+// Spawn position; prevPos matches so the first rendered tick doesn't streak
+const placeAt = (e: Entity, x: number, y: number) => {
+  e.pos.x = x;
+  e.pos.y = y;
+  e.prevPos!.x = x;
+  e.prevPos!.y = y;
+};
+
+const createStats = (): GameStats => ({
+  score: 0, credits: 0, wave: 1, waveName: '1', enemiesDestroyed: 0, accuracy: 0, shotsFired: 0, shotsHit: 0, timeSurvived: 0, weaponLevel: 1, creditsSpent: 0, events: {}, boss: null, secondary: null
+});
+
+/**
+ * Headless game rules. Owns every entity and advances them one fixed
+ * `TICK_MS` tick per `step`; rendering and input collection live in the
+ * caller, which accumulates real time and interpolates between ticks using
+ * each entity's `prevPos`. Typed events (see `events.ts`) raised during a
+ * step are queued and handed out by `drainEvents`.
+ *
+ * Enemies, projectiles and particles live in preallocated pools; the public
+ * arrays are the pools' live lists and must not be pushed to directly.
+ *
+ * All randomness comes from two streams derived from the run seed: `rng`
+ * for gameplay decisions and `fxRng` for cosmetic particles, so tuning
+ * explosions never changes what spawns.
+ *
+ * Spawning and wave progression follow the active wave script (see
+ * `waves.ts`), chosen per run in `reset`. Boss waves run a `BossState`
+ * encounter (see `bosses.ts`) that this class steers and tears down.
+ *
+ * `snapshot` captures everything a run depends on, including both rng
+ * streams, so `restore` continues it exactly as if it had never stopped.
+ */
+export class Simulation {
+  player: Player = createPlayer(0);
+  powerups: PowerUp[] = [];
+  stats: GameStats = createStats();
+  shake = 0;
+  flash = 0; // Full-screen flash strength (0-1), set by bombs
+  tick = 0;
+  time = 0; // Logic time (ms), always tick * TICK_MS
+  spawnTimer = 0;
+  speedBoostUntil = 0;
+  gameOver = false;
+  seed: number;
+
+  // Wave script progress
+  script: WaveScript;
+  waveStartedAt = 0;
+  waveKills = 0;
+  nextGroup = 0; // Index of the next spawn group to release
+  intermissionUntil = 0; // Non-zero while between waves
+  boss: BossState | null = null;
+
+  private rng: Rng;
+  private fxRng: Rng;
+  private nextId = 1;
+  private nextParticleId = 1; // Particles count separately so effects never shift gameplay ids
+  private events: GameEvent[] = [];
+  private ledger: CombatLedger = createLedger();
+  private purchases: Partial<Record<ArmoryItemId, number>> = {};
+
+  private archetypes: ArchetypeRegistry;
+  private waveScripts: WaveScriptRegistry;
+  private bosses: BossRegistry;
+  private spawnCandidates: EnemyArchetype[];
+  private enemyPool: EntityPool<Enemy>;
+  private projectilePool: EntityPool<Projectile>;
+  private particlePool: EntityPool<Particle>;
+
+  // Broadphase grids and reusable query buffers
+  private enemyGrid = new SpatialHash<Enemy>();
+  private hostileShotGrid = new SpatialHash<Projectile>();
+  private powerupGrid = new SpatialHash<PowerUp>();
+  private enemyCandidates: Enemy[] = [];
+  private shotCandidates: Projectile[] = [];
+  private powerupCandidates: PowerUp[] = [];
+
+  constructor(seed: number = 1, { caps = DEFAULT_POOL_CAPS, archetypes = ENEMY_ARCHETYPES, waveScripts = WAVE_SCRIPTS, bosses = BOSSES }: SimulationOptions = {}) {
+    this.seed = seed;
+    this.archetypes = archetypes;
+    this.waveScripts = waveScripts;
+    this.bosses = bosses;
+    this.script = this.findScript(DEFAULT_WAVE_SCRIPT);
+    this.spawnCandidates = spawnOrder(archetypes);
+    this.rng = createRng(seed);
+    this.fxRng = createRng(seed ^ 0x5f3759df);
+    this.enemyPool = new EntityPool<Enemy>(caps.enemies, () => ({ ...blankEntity(), hp: 0, type: 'drone', scoreValue: 0, pattern: 0 }), 'drop');
+    this.projectilePool = new EntityPool<Projectile>(caps.projectiles, () => ({ ...blankEntity(), damage: 0, owner: 'player' }), 'recycle-oldest');
+    this.particlePool = new EntityPool<Particle>(caps.particles, () => ({ ...blankEntity(), life: 0, maxLife: 0, alpha: 1 }), 'recycle-oldest');
+  }
+
+  archetypeOf(e: Enemy): EnemyArchetype {
+    return this.archetypes[e.type];
+  }
+
+  get enemies(): Enemy[] { return this.enemyPool.live; }
+  get projectiles(): Projectile[] { return this.projectilePool.live; }
+  get particles(): Particle[] { return this.particlePool.live; }
+
+  // True while a surviving part protects the boss core
+  get bossShielded(): boolean {
+    return !!this.boss && this.boss.parts.some(part => part.shieldsCore);
+  }
+
+  // A lock-on enemy is on the field; drives the HUD warning and its alarm
+  get lockedOn(): boolean {
+    return this.enemies.some(e => this.archetypes[e.type].render.lockOn);
+  }
+
+  // Enemy mines still on the field
+  get mineCount(): number {
+    return this.projectiles.reduce((count, p) => p.active && p.isMine ? count + 1 : count, 0);
+  }
+
+  // Charge fraction (0-1) of a held beam, for rendering
+  get beamCharge(): number {
+    const player = this.player;
+    if (!player.secondary || player.chargeStartedAt === null) return 0;
+    const weapon = SECONDARY_WEAPONS[player.secondary];
+    return weapon.kind === 'beam' ? Math.min(1, (this.time - player.chargeStartedAt) / weapon.chargeMs) : 0;
+  }
+
+  reset(seed: number = this.seed, scriptId: string = this.script.id) {
+    this.seed = seed;
+    this.script = this.findScript(scriptId);
+    this.rng = createRng(seed);
+    this.fxRng = createRng(seed ^ 0x5f3759df);
+    this.nextId = 1;
+    this.nextParticleId = 1;
+    this.tick = 0;
+    this.time = 0;
+    this.player = createPlayer(3000); // 3 seconds invulnerability
+    this.enemyPool.clear();
+    this.projectilePool.clear();
+    this.particlePool.clear();
+    this.powerups = [];
+    this.purchases = {};
+    this.stats = createStats();
+    this.stats.waveName = waveName(this.script, 1);
+    this.syncSecondaryStatus();
+    this.shake = 0;
+    this.flash = 0;
+    this.spawnTimer = 0;
+    this.waveStartedAt = 0;
+    this.waveKills = 0;
+    this.nextGroup = 0;
+    this.intermissionUntil = 0;
+    this.boss = null;
+    this.speedBoostUntil = 0;
+    this.gameOver = false;
+    this.events = [];
+    this.ledger = createLedger();
+    this.emit({ type: 'WAVE_STARTED', wave: 1, name: this.stats.waveName });
+    sampleTimeline(this.ledger, 0, this.player);
+  }
+
+  // A copy, safe to keep after the run moves on
+  combatLedger(): CombatLedger {
+    return structuredClone(this.ledger);
+  }
+
+  // A copy for the UI; the event tally is counted in place, so it is copied too
+  currentStats(): GameStats {
+    return { ...this.stats, events: { ...this.stats.events } };
+  }
+
+  drainEvents(): GameEvent[] {
+    const events = this.events;
+    this.events = [];
+    return events;
+  }
+
+  snapshot(): SimulationSnapshot {
+    const boss = this.boss;
+    return structuredClone({
+      seed: this.seed,
+      script: this.script.id,
+      rngState: this.rng.getState(),
+      fxRngState: this.fxRng.getState(),
+      nextId: this.nextId,
+      nextParticleId: this.nextParticleId,
+      tick: this.tick,
+      player: this.player,
+      enemies: this.enemies,
+      projectiles: this.projectiles,
+      particles: this.particles,
+      powerups: this.powerups,
+      stats: this.stats,
+      purchases: this.purchases,
+      shake: this.shake,
+      flash: this.flash,
+      spawnTimer: this.spawnTimer,
+      speedBoostUntil: this.speedBoostUntil,
+      gameOver: this.gameOver,
+      waveStartedAt: this.waveStartedAt,
+      waveKills: this.waveKills,
+      nextGroup: this.nextGroup,
+      intermissionUntil: this.intermissionUntil,
+      boss: boss && {
+        id: boss.definition.id,
+        core: boss.core,
+        maxHp: boss.maxHp,
+        parts: boss.parts.map(({ enemy, offset, shieldsCore }) => ({ enemyId: enemy.id, offset, shieldsCore })),
+        phase: boss.phase,
+        swayAngle: boss.swayAngle,
+        arrivesAt: boss.arrivesAt,
+        defeated: boss.defeated
+      },
+      ledger: this.ledger
+    });
+  }
+
+  restore(saved: SimulationSnapshot) {
+    const snapshot = structuredClone(saved);
+    this.seed = snapshot.seed;
+    this.script = this.findScript(snapshot.script);
+    this.rng = createRng(snapshot.seed, snapshot.rngState);
+    this.fxRng = createRng(snapshot.seed ^ 0x5f3759df, snapshot.fxRngState);
+    this.nextId = snapshot.nextId;
+    this.nextParticleId = snapshot.nextParticleId ?? 1; // Saves from before particles had their own counter
+    this.tick = snapshot.tick;
+    this.time = snapshot.tick * TICK_MS;
+    this.player = snapshot.player;
+    this.enemyPool.restore(snapshot.enemies);
+    this.projectilePool.restore(snapshot.projectiles);
+    this.particlePool.restore(snapshot.particles);
+    this.powerups = snapshot.powerups;
+    this.stats = snapshot.stats;
+    this.purchases = snapshot.purchases;
+    this.shake = snapshot.shake;
+    this.flash = snapshot.flash;
+    this.spawnTimer = snapshot.spawnTimer;
+    this.speedBoostUntil = snapshot.speedBoostUntil;
+    this.gameOver = snapshot.gameOver;
+    this.waveStartedAt = snapshot.waveStartedAt;
+    this.waveKills = snapshot.waveKills;
+    this.nextGroup = snapshot.nextGroup;
+    this.intermissionUntil = snapshot.intermissionUntil;
+    this.ledger = snapshot.ledger || createLedger(); // Saves made before the ledger existed
+    this.events = [];
+
+    this.boss = null;
+    if (snapshot.boss) {
+      const { id, core, parts, ...encounter } = snapshot.boss;
+      const definition = this.bosses[id];
+      if (!definition) throw new Error(`Unknown boss "${id}"`);
+      const byId = (enemyId: number) => this.enemies.find(e => e.id === enemyId);
+      this.boss = {
+        ...encounter,
+        definition,
+        core: core && (byId(core.id) || core),
+        parts: parts.map(({ enemyId, offset, shieldsCore }) => {
+          const enemy = byId(enemyId);
+          if (!enemy) throw new Error(`Boss part ${enemyId} is missing from the snapshot`);
+          return { enemy, offset, shieldsCore };
+        })
+      };
+    }
+  }
+
+  // Armory items bought this run plus the secondary it launched with, in catalog order
+  unlocks(): ArmoryItemId[] {
+    return ARMORY_CATALOG.map(item => item.id).filter(id => id === STARTING_SECONDARY || this.purchases[id]);
+  }
+
+  // Units of an armory item this run; weapon level and the equipped secondary count too
+  owned(id: ArmoryItemId): number {
+    if (id === 'WEAPON') return this.player.weaponLevel - 1;
+    if (isSecondaryItem(id)) return this.player.secondary === id ? 1 : 0;
+    return this.purchases[id] || 0;
+  }
+
+  armoryOffers(): ArmoryOffer[] {
+    const context = this.armoryContext();
+    return ARMORY_CATALOG.map(item => armoryOffer(item, context));
+  }
+
+  purchaseUpgrade(type: UpgradeType): boolean {
+    const item = ARMORY_ITEMS[type];
+    if (!item) return false;
+    const offer = armoryOffer(item, this.armoryContext());
+    if (!offer.available) return false;
+
+    this.stats.credits -= offer.price;
+    this.stats.creditsSpent += offer.price;
+    this.purchases[type] = (this.purchases[type] || 0) + 1;
+    this.applyPurchase(item);
+    this.emit({ type: 'PURCHASE_MADE', item: item.id, price: offer.price });
+    return true;
+  }
+
+  private armoryContext(): ArmoryContext {
+    const player = this.player;
+    return {
+      credits: this.stats.credits,
+      owned: id => this.owned(id),
+      hullDamaged: player.hp < player.maxHp,
+      secondary: player.secondary,
+      secondaryFull: player.secondaryAmmo >= this.secondaryCapacity()
+    };
+  }
+
+  // Stat changes happen here; rate and radius upgrades are read from `purchases` where they apply
+  private applyPurchase(item: ArmoryItem) {
+    const player = this.player;
+    const amount = item.amount || 0;
+    switch (item.id) {
+      case 'WEAPON':
+        player.weaponLevel++;
+        this.stats.weaponLevel = player.weaponLevel;
+        return;
+      case 'REPAIR':
+        player.hp = Math.min(player.hp + amount, player.maxHp);
+        return;
+      case 'HULL_PLATING':
+        player.maxHp += amount;
+        player.hp += amount;
+        break;
+      case 'SHIELD_CAPACITY':
+        player.maxShield += amount;
+        player.shield += amount;
+        break;
+      case 'SECONDARY_AMMO':
+        player.secondaryAmmo = this.secondaryCapacity();
+        this.syncSecondaryStatus();
+        break;
+      case 'MISSILES':
+      case 'BOMB':
+      case 'BEAM':
+        // Replaces the current secondary with a full load
+        player.secondary = item.id;
+        player.secondaryAmmo = this.secondaryCapacity();
+        player.chargeStartedAt = null;
+        this.syncSecondaryStatus();
+        this.emit({ type: 'SECONDARY_EQUIPPED', secondary: item.id });
+        return;
+    }
+  }
+
+  // Total effect of every unit bought, e.g. 2 x 0.1 fire rate = 0.2
+  private upgradeEffect(id: ArmoryItemId): number {
+    return (this.purchases[id] || 0) * (ARMORY_ITEMS[id]?.amount || 0);
+  }
+
+  private secondaryCapacity(): number {
+    const player = this.player;
+    if (!player.secondary) return 0;
+    return Math.ceil(SECONDARY_WEAPONS[player.secondary].ammo * (1 + this.upgradeEffect('SECONDARY_AMMO')));
+  }
+
+  step(input: SimulationInput) {
+    if (this.gameOver) return;
+
+    this.savePreviousPositions();
+
+    // Advance Game Time
+    this.tick++;
+    this.time = this.tick * TICK_MS;
+    const time = this.time;
+
+    this.stats.timeSurvived = this.time / 1000;
+
+    // Screen Shake Decay
+    if (this.shake > 0) this.shake *= 0.9;
+    if (this.shake < 0.5) this.shake = 0;
+    if (this.flash > 0) this.flash = Math.max(0, this.flash - 0.04);
+
+    // Speed Boost Expiry
+    if (this.speedBoostUntil && time >= this.speedBoostUntil) {
+      this.player.speedMultiplier = 1;
+      this.speedBoostUntil = 0;
+    }
+
+    this.updatePlayer(input);
+    this.fire();
+    this.fireSecondary(input);
+    this.updateWave();
+    this.updateProjectiles();
+    this.updatePowerups();
+    this.updateEnemies();
+    this.updateBoss();
+    this.buildBroadphase();
+    this.resolveCollisions();
+    this.updateParticles();
+    if (this.gameOver || this.tick % TIMELINE_INTERVAL_TICKS === 0) sampleTimeline(this.ledger, time, this.player);
+
+    // Cleanup
+    this.projectilePool.sweep();
+    this.enemyPool.sweep();
+    this.particlePool.sweep();
+    this.powerups = this.powerups.filter(p => p.active);
+  }
+
+  // Counted in place, so hand stats out through `currentStats`
+  private emit(event: GameEvent) {
+    this.events.push(event);
+    recordEvent(this.ledger, event, this.time);
+    const { events } = this.stats;
+    events[event.type] = (events[event.type] || 0) + 1;
+  }
+
+  // Render interpolation reads prevPos -> pos across the current tick
+  private savePreviousPositions() {
+    savePositions(this.enemies);
+    savePositions(this.projectiles);
+    savePositions(this.particles);
+    savePositions(this.powerups);
+    savePosition(this.player);
+  }
+
+  private findScript(id: string): WaveScript {
+    const script = this.waveScripts[id];
+    if (!script) throw new Error(`Unknown wave script "${id}"`);
+    return script;
+  }
+
+  // Deterministic entity ids, unique within a run
+  private createId(): number {
+    return this.nextId++;
+  }
+
+  private updatePlayer(input: SimulationInput) {
+    const player = this.player;
+    const { actions } = input;
+    const focus = actions.FOCUS ? FOCUS_SPEED : 1;
+    const speed = 7 * player.speedMultiplier * focus; // Base speed
+
+    if (input.mode === 'KEYBOARD') {
+      let dx = 0;
+      let dy = 0;
+      if (actions.MOVE_UP) dy -= 1;
+      if (actions.MOVE_DOWN) dy += 1;
+      if (actions.MOVE_LEFT) dx -= 1;
+      if (actions.MOVE_RIGHT) dx += 1;
+
+      // Normalize diagonal
+      if (dx !== 0 && dy !== 0) {
+        const mag = Math.sqrt(dx*dx + dy*dy);
+        dx /= mag;
+        dy /= mag;
+      }
+
+      player.pos.x += dx * speed;
+      player.pos.y += dy * speed;
+    } else if (input.mode === 'GAMEPAD') {
+      // Full deflection moves at keyboard speed
+      const { direction } = input;
+      const length = Math.hypot(direction.x, direction.y);
+      const scale = length > 1 ? speed / length : speed;
+      player.pos.x += direction.x * scale;
+      player.pos.y += direction.y * scale;
+    } else {
+      // Mouse/Eye/Touch Lerp
+      // Increase smoothing (lower lerp) for eye tracking to reduce jitter
+      const lerpFactor = (input.mode === 'EYE' ? 0.08 : 0.25) * player.speedMultiplier * focus;
+      player.pos.x += (input.target.x - player.pos.x) * lerpFactor;
+      player.pos.y += (input.target.y - player.pos.y) * lerpFactor;
+    }
+
+    // Clamp Player
+    player.pos.x = Math.max(player.width/2, Math.min(CANVAS_WIDTH - player.width/2, player.pos.x));
+    player.pos.y = Math.max(player.height/2, Math.min(CANVAS_HEIGHT - player.height/2, player.pos.y));
+
+    // Shield Regen (Slowly)
+    if (player.shield < player.maxShield) {
+      const regen = SHIELD_REGEN_PER_SEC + this.upgradeEffect('SHIELD_REGEN');
+      player.shield = Math.min(player.maxShield, player.shield + regen * TICK_MS / 1000);
+    }
+  }
+
+  private fire() {
+    const time = this.time;
+    const player = this.player;
+    const weapon = primaryWeapon(player.weaponLevel);
+    if (time - player.lastFired <= weapon.fireRate * (1 - this.upgradeEffect('FIRE_RATE'))) return;
+
+    this.fireVolley('PRIMARY', weapon.projectile, weapon.shots);
+    player.lastFired = time;
+  }
+
+  // Every round counts as a shot, so accuracy is hits per round rather than per volley
+  private fireVolley(source: PlayerWeapon, projectile: WeaponProjectile, shots: WeaponShot[], scale: number = 1) {
+    const player = this.player;
+    this.stats.shotsFired += shots.length;
+    this.syncAccuracy();
+    recordShots(this.ledger, shotKey(source, player.weaponLevel), shots.length);
+    this.emit({ type: 'WEAPON_FIRED', weapon: source, level: player.weaponLevel });
+    shots.forEach(shot => {
+      this.spawnProjectile({
+        pos: { x: player.pos.x + shot.x, y: player.pos.y + shot.y },
+        vel: { x: shot.vx, y: shot.vy },
+        width: projectile.width * scale, height: projectile.height, color: projectile.color,
+        damage: projectile.damage * scale, owner: 'player', weapon: source, weaponLevel: player.weaponLevel,
+        tracking: projectile.homing, pierce: projectile.pierce
+      });
+    });
+  }
+
+  // Volleys and bombs fire while the key is down; the beam charges while held and fires on release
+  private fireSecondary(input: SimulationInput) {
+    const time = this.time;
+    const player = this.player;
+    const held = !!input.actions.SECONDARY;
+    if (!player.secondary || player.secondaryAmmo <= 0 || time < player.secondaryReadyAt) {
+      player.chargeStartedAt = null;
+      return;
+    }
+
+    const weapon = SECONDARY_WEAPONS[player.secondary];
+    if (weapon.kind === 'beam') {
+      if (held) {
+        if (player.chargeStartedAt === null) player.chargeStartedAt = time;
+        return;
+      }
+      if (player.chargeStartedAt === null) return;
+      const charge = Math.min(1, (time - player.chargeStartedAt) / weapon.chargeMs);
+      player.chargeStartedAt = null;
+      if (charge < weapon.minCharge) return; // Tapped, not charged
+      this.fireVolley(player.secondary, weapon.projectile, weapon.shots, charge);
+      this.shake = Math.max(this.shake, 4 * charge);
+    } else {
+      if (!held) return;
+      if (weapon.kind === 'volley') {
+        this.fireVolley(player.secondary, weapon.projectile, weapon.shots);
+      } else {
+        this.detonateBomb(weapon.damage);
+      }
+    }
+
+    player.secondaryAmmo--;
+    player.secondaryReadyAt = time + weapon.cooldown;
+    this.syncSecondaryStatus();
+  }
+
+  // Wipes hostile fire and hits every enemy on screen
+  private detonateBomb(damage: number) {
+    this.emit({ type: 'BOMB_DETONATED', damage });
+    this.shake = 20;
+    this.flash = 1;
+    this.projectiles.forEach(p => {
+      if (p.owner === 'enemy') p.active = false;
+    });
+    this.enemies.forEach(e => {
+      if (e.active && e.pos.y > -e.height / 2) this.damageEnemy(e, damage, e.pos.x, e.pos.y, 'BOMB');
+    });
+  }
+
+  private syncAccuracy() {
+    const { shotsFired, shotsHit } = this.stats;
+    this.stats.accuracy = shotsFired > 0 ? Math.round((shotsHit / shotsFired) * 100) : 0;
+  }
+
+  private syncSecondaryStatus() {
+    const player = this.player;
+    if (!player.secondary) {
+      this.stats.secondary = null;
+      return;
+    }
+    const weapon = SECONDARY_WEAPONS[player.secondary];
+    this.stats.secondary = { type: player.secondary, name: weapon.name, ammo: player.secondaryAmmo, maxAmmo: this.secondaryCapacity() };
+  }
+
+  // Completion is checked before spawning, so kills from the last tick count first
+  private updateWave() {
+    const time = this.time;
+    if (this.intermissionUntil) {
+      if (time < this.intermissionUntil) return;
+      this.intermissionUntil = 0;
+      this.spawnTimer = time;
+      this.startWave(this.stats.wave + 1);
+    }
+
+    let wave = waveDefinition(this.script, this.stats.wave);
+    if (this.isWaveComplete(wave)) {
+      this.emit({ type: 'WAVE_CLEARED', wave: this.stats.wave, name: this.stats.waveName });
+      this.waveKills = wave.complete.kind === 'kills' ? this.waveKills - wave.complete.count : 0;
+      if (wave.intermission) {
+        this.intermissionUntil = time + wave.intermission;
+        return;
+      }
+      this.startWave(this.stats.wave + 1);
+      wave = waveDefinition(this.script, this.stats.wave);
+    }
+
+    this.releaseGroups(wave);
+    if (wave.trickle) this.spawnTrickle(wave);
+    if (this.boss && !this.boss.core && !this.boss.defeated && time >= this.boss.arrivesAt) this.spawnBoss();
+  }
+
+  private startWave(wave: number) {
+    this.stats.wave = wave;
+    this.stats.waveName = waveName(this.script, wave);
+    this.waveStartedAt = this.time;
+    this.nextGroup = 0;
+    this.boss = null;
+    this.stats.boss = null;
+    this.emit({ type: 'WAVE_STARTED', wave, name: this.stats.waveName });
+
+    const bossId = waveDefinition(this.script, wave).boss;
+    if (bossId) {
+      const definition = this.bosses[bossId];
+      this.boss = {
+        definition, core: null, maxHp: 0, parts: [], phase: 0, swayAngle: 0,
+        arrivesAt: this.time + BOSS_WARNING_MS, defeated: false
+      };
+      this.emit({ type: 'BOSS_WARNING', boss: definition.id });
+      this.syncBossStatus();
+    }
+  }
+
+  private isWaveComplete(wave: WaveDefinition): boolean {
+    const { complete } = wave;
+    if (complete.kind === 'survive') return this.time - this.waveStartedAt >= complete.seconds * 1000;
+    if (complete.kind === 'boss') return !!this.boss && this.boss.defeated;
+    if (this.waveKills >= complete.count) return true;
+
+    // Without a trickle, a kill wave also ends once every group is out and the field is empty
+    const groups = wave.groups || [];
+    return !wave.trickle && this.nextGroup >= groups.length && this.enemies.length === 0;
+  }
+
+  private releaseGroups(wave: WaveDefinition) {
+    const groups = wave.groups || [];
+    const elapsed = this.time - this.waveStartedAt;
+    while (this.nextGroup < groups.length && groups[this.nextGroup].at <= elapsed) {
+      this.spawnGroup(groups[this.nextGroup++]);
+    }
+  }
+
+  private spawnGroup(group: SpawnGroup) {
+    const archetype = this.archetypes[group.type];
+    let alert = archetype.spawn?.event; // Raised with the first enemy only
+
+    const path = group.path || 'straight';
+    const sweep = path === 'sweep-left' ? 1 : path === 'sweep-right' ? -1 : 0;
+    formationOffsets(group).forEach(({ cross, along }) => {
+      // Sweeps enter from the side at a height given by the anchor; everything else drops in from the top
+      const x = sweep ? (sweep > 0 ? -40 : CANVAS_WIDTH + 40) - sweep * along : group.anchor * CANVAS_WIDTH + cross;
+      const y = sweep ? group.anchor * CANVAS_HEIGHT + cross : -40 - along;
+      const enemy = this.spawnEnemy(archetype.id, x, y, alert);
+      if (!enemy) return;
+      alert = undefined;
+      enemy.entryPath = path;
+      enemy.entryUntil = this.time + ENTRY_DURATION[path];
+    });
+  }
+
+  private spawnBoss() {
+    const boss = this.boss!;
+    const { definition } = boss;
+    const core = this.spawnEnemy(definition.core, CANVAS_WIDTH / 2, -120);
+    if (!core) return; // Pool full, retry next tick
+
+    boss.core = core;
+    boss.maxHp = core.hp;
+    definition.parts.forEach(part => {
+      const enemy = this.spawnEnemy(part.archetype, core.pos.x + part.offset.x, core.pos.y + part.offset.y);
+      if (enemy) boss.parts.push({ enemy, offset: part.offset, shieldsCore: !!part.shieldsCore });
+    });
+    [core, ...boss.parts.map(part => part.enemy)].forEach(e => { e.vel.x = 0; e.vel.y = 0; });
+    this.emit({ type: 'BOSS_PHASE', boss: definition.id, phase: 0, cue: definition.phases[0].event });
+  }
+
+  // Steers the core, carries the parts along and advances phases
+  private updateBoss() {
+    const boss = this.boss;
+    if (!boss || !boss.core || boss.defeated) return;
+
+    const { core, definition } = boss;
+    const time = this.time;
+
+    // Phase thresholds
+    const fraction = core.hp / boss.maxHp;
+    while (boss.phase + 1 < definition.phases.length && fraction <= definition.phases[boss.phase + 1].hpBelow) {
+        boss.phase++;
+        this.shake = 15;
+        this.emit({ type: 'BOSS_PHASE', boss: definition.id, phase: boss.phase, cue: definition.phases[boss.phase].event });
+    }
+    const phase = definition.phases[boss.phase];
+
+    if (core.pos.y < definition.entry.y) {
+        // Entering
+        core.pos.y = Math.min(definition.entry.y, core.pos.y + definition.entry.speed);
+    } else {
+        boss.swayAngle += phase.sway.frequency * TICK_MS;
+        const targetX = CANVAS_WIDTH / 2 + Math.sin(boss.swayAngle) * phase.sway.amplitude;
+        core.pos.x += (targetX - core.pos.x) * 0.05; // Eases across phase changes
+
+        if (time - (core.lastFired || 0) > phase.weapon.interval) {
+            core.lastFired = time;
+            this.fireEnemyWeapon(core, phase.weapon);
+        }
+    }
+
+    boss.parts.forEach(({ enemy, offset }) => {
+        enemy.pos.x = core.pos.x + offset.x;
+        enemy.pos.y = core.pos.y + offset.y;
+    });
+    this.syncBossStatus();
+  }
+
+  private syncBossStatus() {
+    const boss = this.boss;
+    if (!boss) return;
+    this.stats.boss = {
+      name: boss.definition.name,
+      phase: boss.definition.phases[boss.phase].name,
+      hp: Math.max(0, boss.core ? boss.core.hp : boss.maxHp),
+      maxHp: boss.maxHp,
+      shielded: this.bossShielded,
+      arriving: !boss.core
+    };
+  }
+
+  // Part and core deaths; the core takes every remaining part down with it
+  private bossEnemyDestroyed(e: Enemy) {
+    const boss = this.boss!;
+    if (e === boss.core) {
+        boss.parts.forEach(({ enemy }) => {
+            enemy.active = false;
+            this.createExplosion(enemy.pos.x, enemy.pos.y, enemy.color, 20, true);
+        });
+        boss.parts = [];
+        boss.defeated = true;
+        this.shake = 25;
+        this.emit({ type: 'BOSS_DEFEATED', boss: boss.definition.id });
+        this.stats.boss = null;
+        return;
+    }
+
+    const index = boss.parts.findIndex(part => part.enemy === e);
+    if (index < 0) return;
+    const wasShielded = this.bossShielded;
+    boss.parts.splice(index, 1);
+    this.emit({ type: 'BOSS_PART_DESTROYED', boss: boss.definition.id, remaining: boss.parts.length });
+    if (wasShielded && !this.bossShielded) this.emit({ type: 'BOSS_CORE_EXPOSED', boss: boss.definition.id });
+    this.syncBossStatus();
+  }
+
+  // Random spawns using the archetypes' own wave gates and rolls
+  private spawnTrickle(wave: WaveDefinition) {
+    const time = this.time;
+    const trickle = wave.trickle!;
+    if (time - this.spawnTimer <= Math.max(trickle.minInterval, scaleForWave(trickle.interval, this.stats.wave))) return;
+
+    this.spawnTimer = time;
+    const rand = this.rng.next();
+    const archetype = this.spawnCandidates.find(a => this.stats.wave >= a.spawn!.minWave && rand > a.spawn!.rollAbove);
+    if (!archetype) return;
+
+    this.spawnEnemy(archetype.id, this.rng.next() * (CANVAS_WIDTH - 40) + 20, undefined, archetype.spawn!.event);
+  }
+
+  // Builds an enemy of the given archetype scaled to the current wave; null when the enemy pool is full.
+  // `alert` rides along on the spawn event for listeners that warn the pilot.
+  spawnEnemy(type: Enemy['type'], x: number, y: number = -40, alert?: string): Enemy | null {
+    const archetype = this.archetypes[type];
+    if (!archetype) throw new Error(`Unknown enemy archetype "${type}"`);
+
+    const enemy = this.enemyPool.acquire();
+    if (!enemy) return null;
+
+    const wave = this.stats.wave;
+    const shield = archetype.shield ? scaleForWave(archetype.shield, wave) : 0;
+    enemy.id = this.createId();
+    placeAt(enemy, x, y);
+    enemy.vel.x = (this.rng.next() - 0.5) * 2;
+    enemy.vel.y = this.rng.next() * 2 + 1 + (wave * 0.1);
+    enemy.width = archetype.size;
+    enemy.height = archetype.size;
+    enemy.color = archetype.color;
+    enemy.hp = scaleForWave(archetype.hp, wave);
+    enemy.type = archetype.id;
+    enemy.scoreValue = archetype.scoreValue;
+    enemy.pattern = this.rng.int(3);
+    enemy.lastFired = 0;
+    enemy.shield = shield;
+    enemy.maxShield = shield;
+    enemy.entryPath = undefined;
+    enemy.entryUntil = undefined;
+    this.emit({ type: 'ENEMY_SPAWNED', enemyId: enemy.id, archetype: archetype.id, pos: { x, y }, alert });
+    return enemy;
+  }
+
+  // Copies the description into a pooled slot (recycling the oldest round when full)
+  spawnProjectile(projectile: Omit<Projectile, 'id' | 'active'>): Projectile {
+    const slot = this.projectilePool.acquire()!;
+    slot.id = this.createId();
+    placeAt(slot, projectile.pos.x, projectile.pos.y);
+    slot.vel.x = projectile.vel.x;
+    slot.vel.y = projectile.vel.y;
+    slot.width = projectile.width;
+    slot.height = projectile.height;
+    slot.color = projectile.color;
+    slot.damage = projectile.damage;
+    slot.owner = projectile.owner;
+    slot.tracking = projectile.tracking;
+    slot.isMine = projectile.isMine;
+    slot.pierce = projectile.pierce;
+    slot.lastHitId = undefined;
+    slot.weapon = projectile.weapon;
+    slot.weaponLevel = projectile.weaponLevel;
+    slot.firedBy = projectile.firedBy;
+    return slot;
+  }
+
+  private updateProjectiles() {
+    const player = this.player;
+    this.projectiles.forEach(p => {
+      // Homing Logic for Tracking Projectiles
+      if (p.tracking && p.owner === 'enemy') {
+          const dx = player.pos.x - p.pos.x;
+          const dy = player.pos.y - p.pos.y;
+          const dist = Math.sqrt(dx*dx + dy*dy);
+          if (dist > 0) {
+              // Steer velocity towards player
+              const speed = 4;
+              p.vel.x = (p.vel.x * 0.95) + ((dx/dist) * speed * 0.05);
+              p.vel.y = (p.vel.y * 0.95) + ((dy/dist) * speed * 0.05);
+          }
+      }
+
+      // Player missiles chase the nearest enemy
+      if (p.tracking && p.owner === 'player') {
+          const target = this.nearestEnemy(p.pos);
+          if (target) {
+              const dx = target.pos.x - p.pos.x;
+              const dy = target.pos.y - p.pos.y;
+              const dist = Math.sqrt(dx*dx + dy*dy);
+              const speed = Math.max(6, Math.sqrt(p.vel.x*p.vel.x + p.vel.y*p.vel.y));
+              if (dist > 0) {
+                  p.vel.x = (p.vel.x * 0.9) + ((dx/dist) * speed * 0.1);
+                  p.vel.y = (p.vel.y * 0.9) + ((dy/dist) * speed * 0.1);
+              }
+          }
+      }
+
+      // Mine Logic (Drift slowly)
+      if (p.isMine) {
+          p.vel.x *= 0.95;
+          p.vel.y = 1; // Slow drift down
+      }
+
+      p.pos.x += p.vel.x;
+      p.pos.y += p.vel.y;
+      if (p.pos.y < -50 || p.pos.y > CANVAS_HEIGHT + 50 || p.pos.x < -50 || p.pos.x > CANVAS_WIDTH + 50) p.active = false;
+    });
+  }
+
+  private nearestEnemy(from: Position): Enemy | null {
+    let best: Enemy | null = null;
+    let bestDist = Infinity;
+    this.enemies.forEach(e => {
+      if (!e.active || e.pos.y < 0) return;
+      const dist = (e.pos.x - from.x) ** 2 + (e.pos.y - from.y) ** 2;
+      if (dist < bestDist) {
+        bestDist = dist;
+        best = e;
+      }
+    });
+    return best;
+  }
+
+  private updatePowerups() {
+    const player = this.player;
+    const magnet = this.upgradeEffect('MAGNET');
+    this.powerups.forEach(p => {
+        const dx = player.pos.x - p.pos.x;
+        const dy = player.pos.y - p.pos.y;
+        const dist = Math.sqrt(dx*dx + dy*dy);
+        if (dist > 0 && dist < magnet) {
+            // Salvage Magnet pull
+            p.pos.x += (dx / dist) * 6;
+            p.pos.y += (dy / dist) * 6;
+        } else {
+            p.pos.y += 2; // Drift down
+        }
+        if (p.pos.y > CANVAS_HEIGHT + 50) p.active = false;
+    });
+  }
+
+  private collectPowerup(p: PowerUp) {
+    const player = this.player;
+    let bonus = 0;
+    p.active = false;
+    if (p.type === 'WEAPON') {
+        if (player.weaponLevel < MAX_WEAPON_LEVEL) {
+            player.weaponLevel++;
+            this.stats.weaponLevel = player.weaponLevel;
+        } else {
+            bonus = 500; // Bonus for max level
+            this.stats.score += bonus;
+        }
+    } else if (p.type === 'SHIELD') {
+        player.shield = player.maxShield;
+        player.hp = Math.min(player.hp + 25, player.maxHp);
+    } else if (p.type === 'SPEED') {
+        player.speedMultiplier = 1.5;
+        this.speedBoostUntil = this.time + 5000;
+    }
+    this.emit({ type: 'POWERUP_COLLECTED', powerup: p.type, bonus });
+  }
+
+  private updateEnemies() {
+    this.enemies.forEach(e => {
+      const archetype = this.archetypes[e.type];
+
+      if (e.entryPath && this.time < e.entryUntil!) {
+          this.followEntryPath(e);
+      } else {
+          e.pos.x += e.vel.x;
+          e.pos.y += e.vel.y;
+          this.moveEnemy(e, archetype.movement);
+      }
+
+      // Shooting Logic
+      if (archetype.weapon && e.pos.y > 0 && e.pos.y < CANVAS_HEIGHT - 50 &&
+          this.time - (e.lastFired || 0) > archetype.weapon.interval) {
+          e.lastFired = this.time;
+          this.fireEnemyWeapon(e, archetype.weapon);
+      }
+
+      if (e.pos.y > CANVAS_HEIGHT + 50) e.active = false;
+    });
+  }
+
+  // Scripted entry; formations hold their shape because every member moves the same way
+  private followEntryPath(e: Enemy) {
+    const path = e.entryPath!;
+    const remaining = (e.entryUntil! - this.time) / ENTRY_DURATION[path];
+    switch (path) {
+      case 'dive':
+          e.pos.y += 6;
+          break;
+      case 'sweep-left':
+      case 'sweep-right':
+          // Fast across, curving downward as it slows
+          e.pos.x += (path === 'sweep-left' ? 1 : -1) * 5 * remaining;
+          e.pos.y += 1 + 2 * (1 - remaining);
+          break;
+      default:
+          e.pos.y += 3;
+    }
+  }
+
+  // Behaviour on top of the spawn velocity
+  private moveEnemy(e: Enemy, movement: EnemyMovement) {
+    const time = this.time;
+    switch (movement.kind) {
+      case 'chase': {
+          const moveSpeed = scaleForWave(movement.speed, this.stats.wave);
+          if (e.pos.x < this.player.pos.x) e.pos.x += moveSpeed;
+          else e.pos.x -= moveSpeed;
+          break;
+      }
+      case 'hover':
+          // Move horizontally, stay near the given altitude
+          e.vel.y = e.pos.y > movement.altitude ? -movement.climb : movement.climb;
+          e.vel.x = Math.sin(time * movement.sway.frequency) * movement.sway.amplitude;
+          break;
+      case 'advance':
+          // Slow steady advance
+          e.vel.y = movement.speed;
+          e.vel.x = Math.sin(time * movement.sway.frequency) * movement.sway.amplitude;
+          break;
+      case 'anchored':
+          break; // Positioned by updateBoss
+      case 'drift':
+          if (movement.weave && e.pattern === 1) {
+              e.pos.x += Math.sin(time * movement.weave.frequency) * movement.weave.amplitude;
+          }
+          break;
+    }
+  }
+
+  private fireEnemyWeapon(e: Enemy, weapon: EnemyWeapon) {
+    const { projectile } = weapon;
+    const damage = scaleForWave(projectile.damage, this.stats.wave);
+    weapon.shots.forEach(shot => {
+      this.spawnProjectile({
+        pos: { x: e.pos.x, y: e.pos.y + 20 },
+        vel: { x: shot.vx, y: shot.vy },
+        width: projectile.width, height: projectile.height, color: projectile.color,
+        damage, owner: 'enemy', firedBy: e.type,
+        tracking: projectile.behavior === 'homing' || undefined,
+        isMine: projectile.behavior === 'mine' || undefined
+      });
+    });
+  }
+
+  // Rebuild the broadphase grids from this tick's final positions
+  private buildBroadphase() {
+    this.enemyGrid.clear();
+    this.hostileShotGrid.clear();
+    this.powerupGrid.clear();
+    this.enemies.forEach(e => { if (e.active) this.enemyGrid.insert(e); });
+    this.projectiles.forEach(p => { if (p.active && p.owner === 'enemy') this.hostileShotGrid.insert(p); });
+    this.powerups.forEach(p => { if (p.active) this.powerupGrid.insert(p); });
+  }
+
+  private resolveCollisions() {
+    const time = this.time;
+    const player = this.player;
+    const wave = this.stats.wave;
+    const px = player.pos.x;
+    const py = player.pos.y;
+    const phw = player.width / 2;
+    const phh = player.height / 2;
+
+    // Power-ups vs Player
+    this.powerupGrid.query(px, py, phw, phh, this.powerupCandidates).forEach(p => {
+        if (p.active &&
+            Math.abs(p.pos.x - px) < (p.width + player.width)/2 &&
+            Math.abs(p.pos.y - py) < (p.height + player.height)/2) {
+            this.collectPowerup(p);
+        }
+    });
+
+    // Enemies vs Player
+    if (time > player.invulnerableUntil) {
+      this.enemyGrid.query(px, py, phw, phh, this.enemyCandidates).forEach(e => {
+        if (!e.active ||
+            Math.abs(e.pos.x - px) >= (e.width + player.width)/2 ||
+            Math.abs(e.pos.y - py) >= (e.height + player.height)/2) return;
+
+        // Boss hulls can't be rammed apart; bounce off with a moment of invulnerability
+        if (this.archetypes[e.type].movement.kind === 'anchored') {
+             this.createExplosion(px, py - phh, e.color, 10, true);
+             player.invulnerableUntil = time + 1000;
+        // Shielded enemies lose their shield on impact instead of breaking up
+        } else if ((e.shield || 0) > 0) {
+             e.shield = 0; // Destroy shield on impact
+             this.createExplosion(e.pos.x, e.pos.y, e.color, 10, true);
+        } else {
+             e.active = false;
+             this.createExplosion(e.pos.x, e.pos.y, '#ff0000', 15, true);
+        }
+
+        this.damagePlayer(25 + (wave * 5), 'COLLISION', e.type);
+      });
+    }
+
+    // Player Projectiles vs Enemies
+    this.projectiles.forEach(p => {
+      if (!p.active || p.owner !== 'player') return;
+
+      this.enemyGrid.query(p.pos.x, p.pos.y, p.width/2 + 5, p.height/2 + 5, this.enemyCandidates).forEach(e => {
+        if (!e.active || !p.active || p.lastHitId === e.id) return;
+        if (Math.abs(p.pos.x - e.pos.x) < (p.width + e.width)/2 + 5 &&
+            Math.abs(p.pos.y - e.pos.y) < (p.height + e.height)/2 + 5) {
+              this.hitEnemy(p, e);
+        }
+      });
+    });
+
+    // Enemy Projectiles vs Player
+    if (time > player.invulnerableUntil) {
+      this.hostileShotGrid.query(px, py, phw, phh, this.shotCandidates).forEach(p => {
+        if (p.active &&
+            Math.abs(p.pos.x - px) < (p.width + player.width)/2 &&
+            Math.abs(p.pos.y - py) < (p.height + player.height)/2) {
+            p.active = false;
+            this.createExplosion(p.pos.x, p.pos.y, '#ef4444', 5, true);
+            this.damagePlayer(p.damage, 'PROJECTILE', p.firedBy || 'UNKNOWN');
+        }
+      });
+    }
+  }
+
+  private hitEnemy(p: Projectile, e: Enemy) {
+    const firstHit = p.lastHitId === undefined;
+    // Piercing rounds carry on through
+    if (p.pierce) {
+        p.pierce--;
+        p.lastHitId = e.id;
+    } else {
+        p.active = false;
+    }
+    const weapon = p.weapon || 'PRIMARY';
+    if (firstHit) {
+        this.stats.shotsHit++;
+        this.syncAccuracy();
+        recordHit(this.ledger, shotKey(weapon, p.weaponLevel || 1));
+    }
+    this.damageEnemy(e, p.damage, p.pos.x, p.pos.y, weapon);
+  }
+
+  // Applies damage at the impact point and handles the kill
+  private damageEnemy(e: Enemy, damage: number, x: number, y: number, weapon: PlayerWeapon) {
+    // Shielded boss core shrugs off hits
+    if (this.boss && e === this.boss.core && this.bossShielded) {
+        this.createExplosion(x, y, this.archetypes[e.type].render.shieldColor || '#60a5fa', 2, false);
+        return;
+    }
+    recordDamage(this.ledger, weapon, Math.min(damage, (e.shield || 0) + Math.max(0, e.hp)));
+
+    // Hit Shield First
+    if ((e.shield || 0) > 0) {
+        e.shield! -= damage;
+        this.createExplosion(x, y, '#60a5fa', 2, false); // Shield Spark
+        if (e.shield! < 0) {
+            e.hp += e.shield!; // Overflow to Hull
+            e.shield = 0;
+        }
+    } else {
+        e.hp -= damage;
+        this.createExplosion(x, y, '#fff', 3, false);
+    }
+
+    if (e.hp > 0) return;
+
+    const archetype = this.archetypes[e.type];
+    e.active = false;
+    this.createExplosion(e.pos.x, e.pos.y, e.color, archetype.death.particles, archetype.death.heavy);
+    this.stats.score += e.scoreValue;
+    this.stats.credits += e.scoreValue;
+    this.stats.enemiesDestroyed++;
+    this.waveKills++;
+    this.emit({ type: 'ENEMY_KILLED', enemyId: e.id, archetype: e.type, weapon, score: e.scoreValue, pos: { x: e.pos.x, y: e.pos.y } });
+    if (this.boss && !this.boss.defeated) this.bossEnemyDestroyed(e);
+
+    const puType = this.rollDrop(archetype);
+    if (puType) {
+        this.powerups.push({
+            id: this.createId(),
+            pos: { x: e.pos.x, y: e.pos.y },
+            vel: { x: 0, y: 2 },
+            width: 20, height: 20, color: puType === 'WEAPON' ? '#fbbf24' : (puType === 'SHIELD' ? '#4ade80' : '#38bdf8'),
+            active: true, type: puType
+        });
+    }
+  }
+
+  private updateParticles() {
+    this.particles.forEach(p => {
+      p.pos.x += p.vel.x;
+      p.pos.y += p.vel.y;
+      p.life--;
+      p.alpha = p.life / p.maxLife;
+      if (p.life <= 0) p.active = false;
+    });
+  }
+
+  // Shield absorbs first, overflow goes to hull
+  private damagePlayer(amount: number, source: 'COLLISION' | 'PROJECTILE', attacker: string) {
+    const player = this.player;
+    const hpBefore = player.hp;
+    if (player.shield > 0) {
+        player.shield -= amount;
+        if (player.shield < 0) {
+            player.hp += player.shield; // Overflow damage
+            player.shield = 0;
+        }
+    } else {
+        player.hp -= amount;
+    }
+
+    this.emit({ type: 'DAMAGE_TAKEN', source, attacker, amount, hullDamage: hpBefore - player.hp, hull: Math.max(0, player.hp), shield: player.shield });
+    if (player.hp <= 0) this.gameOver = true;
+  }
+
+  // Weighted pick from the archetype's drop table, or null for no drop
+  private rollDrop(archetype: EnemyArchetype): PowerUp['type'] | null {
+    const { chance, table } = archetype.drops;
+    if (this.rng.next() >= chance) return null;
+
+    const total = table.reduce((sum, entry) => sum + entry.weight, 0);
+    let roll = this.rng.next() * total;
+    for (const entry of table) {
+      roll -= entry.weight;
+      if (roll < 0) return entry.type;
+    }
+    return null;
+  }
+
+  private createExplosion(x: number, y: number, color: string, count: number, heavy: boolean) {
+    if (heavy) this.shake = 10;
+    this.emit({ type: 'EXPLOSION', pos: { x, y }, heavy, size: count });
+    const fx = this.fxRng;
+
+    for (let i = 0; i < count; i++) {
+      const p = this.particlePool.acquire()!;
+      p.id = this.nextParticleId++;
+      placeAt(p, x, y);
+      p.vel.x = (fx.next() - 0.5) * (heavy ? 12 : 6);
+      p.vel.y = (fx.next() - 0.5) * (heavy ? 12 : 6);
+      p.width = fx.next() * 4 + 1;
+      p.height = fx.next() * 4 + 1;
+      p.color = fx.next() > 0.5 ? color : '#ffffff'; // Color variance
+      p.life = 30 + fx.next() * 20;
+      p.maxLife = 50;
+      p.alpha = 1;
+      p.scale = fx.next() * 2 + 1;
+    }
+  }
+}
@@ -0,0 +1,63 @@
+import { Entity } from '../types';
+
+/**
+ * Uniform-grid broadphase. Entities are bucketed by the cells their bounding
+ * box overlaps; `query` returns every entity sharing a cell with the given
+ * box, so callers still run their exact overlap test on the candidates.
+ * Rebuilt from scratch each tick, bucket arrays are reused to avoid garbage.
+ */
+export class SpatialHash<T extends Entity> {
+  private cells = new Map<number, T[]>();
+  private used: T[][] = [];
+  private seen = new Set<T>();
+
+  constructor(private cellSize: number = 64) {}
+
+  clear() {
+    this.used.forEach(bucket => { bucket.length = 0; });
+    this.used.length = 0;
+  }
+
+  insert(entity: T) {
+    this.forEachCell(entity.pos.x, entity.pos.y, entity.width / 2, entity.height / 2, key => {
+      let bucket = this.cells.get(key);
+      if (!bucket) {
+        bucket = [];
+        this.cells.set(key, bucket);
+      }
+      if (bucket.length === 0) this.used.push(bucket);
+      bucket.push(entity);
+    });
+  }
+
+  // Candidates whose cells overlap the box centred on (x, y); `out` is cleared and filled
+  query(x: number, y: number, halfWidth: number, halfHeight: number, out: T[]): T[] {
+    out.length = 0;
+    this.seen.clear();
+    this.forEachCell(x, y, halfWidth, halfHeight, key => {
+      const bucket = this.cells.get(key);
+      if (!bucket) return;
+      for (let i = 0; i < bucket.length; i++) {
+        const entity = bucket[i];
+        if (!this.seen.has(entity)) {
+          this.seen.add(entity);
+          out.push(entity);
+        }
+      }
+    });
+    return out;
+  }
+
+  private forEachCell(x: number, y: number, halfWidth: number, halfHeight: number, fn: (key: number) => void) {
+    const minX = Math.floor((x - halfWidth) / this.cellSize);
+    const maxX = Math.floor((x + halfWidth) / this.cellSize);
+    const minY = Math.floor((y - halfHeight) / this.cellSize);
+    const maxY = Math.floor((y + halfHeight) / this.cellSize);
+    for (let cx = minX; cx <= maxX; cx++) {
+      for (let cy = minY; cy <= maxY; cy++) {
+        // Pack signed cell coords into one key; entities are culled well before ±32k cells
+        fn(((cx + 32768) << 16) | (cy + 32768));
+      }
+    }
+  }
+}
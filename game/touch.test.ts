@@ -0,0 +1,150 @@
+import { describe, it, expect, vi } from 'vitest';
+import { TouchInput, TouchAction, TOUCH_BUTTONS, DRAG_CLEARANCE, STICK_RADIUS } from './touch';
+
+const SHIP = { x: 300, y: 700 };
+const FIRE = TOUCH_BUTTONS.find(b => b.action === 'SECONDARY')!;
+
+const finger = (id: number, x: number, y: number) => [{ id, x, y }];
+
+describe('TouchInput', () => {
+  describe('drag steering', () => {
+    it('keeps the offset the ship had from the finger', () => {
+      const touch = new TouchInput();
+      touch.press(finger(1, 300, 600), SHIP);
+      expect(touch.target).toEqual(SHIP);
+
+      touch.move(finger(1, 350, 550));
+      expect(touch.target).toEqual({ x: 350, y: 650 });
+    });
+
+    it('holds the ship at least DRAG_CLEARANCE above a finger that lands on it', () => {
+      const touch = new TouchInput();
+      touch.press(finger(1, 310, 690), SHIP);
+      expect(touch.target).toEqual({ x: 300, y: 690 - DRAG_CLEARANCE });
+
+      touch.move(finger(1, 410, 700));
+      expect(touch.target).toEqual({ x: 400, y: 700 - DRAG_CLEARANCE });
+    });
+
+    it('clamps the target to the canvas', () => {
+      const touch = new TouchInput();
+      touch.press(finger(1, 300, 600), SHIP);
+      touch.move(finger(1, -50, 760));
+      expect(touch.target).toEqual({ x: 0, y: 800 });
+    });
+  });
+
+  describe('virtual stick', () => {
+    const stickAt = (dx: number, dy: number) => {
+      const touch = new TouchInput();
+      touch.steering = 'STICK';
+      touch.press(finger(1, 200, 600), SHIP);
+      touch.move(finger(1, 200 + dx, 600 + dy));
+      return touch;
+    };
+
+    it('centres on the landing point', () => {
+      const touch = new TouchInput();
+      touch.steering = 'STICK';
+      touch.press(finger(1, 200, 600), SHIP);
+      expect(touch.stickOrigin).toEqual({ x: 200, y: 600 });
+      expect(touch.stick).toEqual({ x: 0, y: 0 });
+    });
+
+    it('ignores travel inside the deadzone', () => {
+      expect(stickAt(STICK_RADIUS * 0.05, 0).stick).toEqual({ x: 0, y: 0 });
+      expect(stickAt(0, -STICK_RADIUS * 0.09).stick).toEqual({ x: 0, y: 0 });
+    });
+
+    it('deflects linearly beyond the deadzone', () => {
+      const { stick } = stickAt(STICK_RADIUS * 0.55, 0);
+      expect(stick.x).toBeCloseTo(0.5);
+      expect(stick.y).toBeCloseTo(0);
+    });
+
+    it('tops out at full deflection', () => {
+      const { stick } = stickAt(0, -STICK_RADIUS * 3);
+      expect(stick.x).toBeCloseTo(0);
+      expect(stick.y).toBeCloseTo(-1);
+    });
+  });
+
+  describe('multi-touch', () => {
+    it('ignores a second finger while one steers', () => {
+      const touch = new TouchInput();
+      touch.press(finger(1, 300, 600), SHIP);
+      touch.press(finger(2, 100, 400), SHIP);
+      touch.move(finger(2, 150, 450));
+      expect(touch.target).toEqual(SHIP);
+
+      touch.release(finger(2, 150, 450));
+      expect(touch.engaged).toBe(true);
+      touch.move(finger(1, 320, 600));
+      expect(touch.target).toEqual({ x: 320, y: 700 });
+    });
+
+    it('holds a button and steers at the same time', () => {
+      const touch = new TouchInput();
+      const pressed: TouchAction[] = [];
+      touch.onPress(action => pressed.push(action));
+
+      touch.press(finger(1, 300, 600), SHIP);
+      touch.press(finger(2, FIRE.x, FIRE.y), SHIP);
+      expect(pressed).toEqual(['SECONDARY']);
+      expect(touch.isHeld('SECONDARY')).toBe(true);
+      expect(touch.engaged).toBe(true);
+
+      touch.move(finger(1, 250, 600));
+      expect(touch.target).toEqual({ x: 250, y: 700 });
+
+      touch.release(finger(2, FIRE.x, FIRE.y));
+      expect(touch.isHeld('SECONDARY')).toBe(false);
+      expect(touch.engaged).toBe(true);
+    });
+
+    it('does not steer with a finger that landed on a button', () => {
+      const touch = new TouchInput();
+      touch.press(finger(1, FIRE.x, FIRE.y), SHIP);
+      touch.move(finger(1, FIRE.x - 200, FIRE.y - 200));
+      expect(touch.engaged).toBe(false);
+      expect(touch.target).toEqual(SHIP);
+    });
+  });
+
+  describe('release', () => {
+    it('hands steering to the next finger once the steering finger lifts', () => {
+      const touch = new TouchInput();
+      touch.press(finger(1, 300, 600), SHIP);
+      touch.press(finger(2, 100, 400), SHIP);
+      touch.release(finger(1, 300, 600));
+      expect(touch.engaged).toBe(false);
+
+      touch.press(finger(3, 200, 500), { x: 200, y: 600 });
+      touch.move(finger(3, 220, 500));
+      expect(touch.engaged).toBe(true);
+      expect(touch.target).toEqual({ x: 220, y: 600 });
+    });
+
+    it('recentres the stick', () => {
+      const touch = new TouchInput();
+      touch.steering = 'STICK';
+      touch.press(finger(1, 200, 600), SHIP);
+      touch.move(finger(1, 200 + STICK_RADIUS, 600));
+      touch.release(finger(1, 200 + STICK_RADIUS, 600));
+      expect(touch.engaged).toBe(false);
+      expect(touch.stick).toEqual({ x: 0, y: 0 });
+      expect(touch.stickOrigin).toBeNull();
+    });
+
+    it('announces each button press once', () => {
+      const touch = new TouchInput();
+      const listener = vi.fn();
+      const unsubscribe = touch.onPress(listener);
+      touch.press(finger(1, FIRE.x, FIRE.y), SHIP);
+      touch.release(finger(1, FIRE.x, FIRE.y));
+      unsubscribe();
+      touch.press(finger(2, FIRE.x, FIRE.y), SHIP);
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import { Position } from '../types';
+import { Unsubscribe } from './events';
+import { CANVAS_WIDTH, CANVAS_HEIGHT } from './simulation';
+import { shapeStick } from './gamepad';
+
+/**
+ * Touch input for phones and tablets.
+ *
+ * Every finger is tracked by its `Touch.identifier`. A finger that lands on an
+ * on-screen button holds that button until it lifts; the first finger that
+ * lands anywhere else steers, and further fingers are ignored until it lifts.
+ * Steering is either a relative drag, where the ship keeps the offset it had
+ * from the finger when it landed (never less than `DRAG_CLEARANCE`, so the
+ * finger never covers the ship), or a floating virtual stick centred where
+ * the finger landed. Positions are in canvas space; `attach` converts from
+ * the page, and the `press`/`move`/`release` methods take canvas points
+ * directly.
+ */
+
+export type TouchAction = 'SECONDARY' | 'ARMORY' | 'PAUSE';
+
+export type TouchSteering = 'DRAG' | 'STICK';
+
+export interface TouchPoint {
+  id: number;
+  x: number;
+  y: number;
+}
+
+export interface TouchButton {
+  action: TouchAction;
+  x: number;
+  y: number;
+  radius: number;
+  label: string;
+}
+
+// Canvas space, clear of the HUD and the usual flight area
+export const TOUCH_BUTTONS: TouchButton[] = [
+  { action: 'SECONDARY', x: CANVAS_WIDTH - 70, y: CANVAS_HEIGHT - 90, radius: 44, label: 'FIRE' },
+  { action: 'ARMORY', x: CANVAS_WIDTH - 150, y: CANVAS_HEIGHT - 50, radius: 28, label: 'ARM' },
+  { action: 'PAUSE', x: CANVAS_WIDTH - 40, y: 110, radius: 24, label: 'II' }
+];
+
+export const DRAG_CLEARANCE = 80; // Minimum finger-to-ship distance while dragging
+export const STICK_RADIUS = 60; // Finger travel for full deflection
+const STICK_DEADZONE = 0.1; // Linear beyond this; a thumb is already precise
+
+const clamp = (value: number, max: number) => Math.max(0, Math.min(max, value));
+
+export const buttonAt = (x: number, y: number): TouchButton | null =>
+  TOUCH_BUTTONS.find(b => Math.hypot(x - b.x, y - b.y) <= b.radius) || null;
+
+export class TouchInput {
+  steering: TouchSteering = 'DRAG';
+  active = false; // A finger has touched the canvas; on-screen controls are shown from then on
+  target: Position = { x: CANVAS_WIDTH / 2, y: CANVAS_HEIGHT - 100 }; // DRAG: where the ship should be
+  stick: Position = { x: 0, y: 0 }; // STICK: deflection, each axis -1..1
+  stickOrigin: Position | null = null;
+  private steeringId: number | null = null;
+  private offset: Position = { x: 0, y: 0 };
+  private buttons = new Map<number, TouchAction>(); // Finger id -> held button
+  private pressListeners = new Set<(action: TouchAction) => void>();
+
+  // Listens on the canvas; `anchor` reports the ship position a drag starts from
+  attach(canvas: HTMLCanvasElement, anchor: () => Position): Unsubscribe {
+    const points = (e: TouchEvent): TouchPoint[] => {
+      const rect = canvas.getBoundingClientRect();
+      const scaleX = canvas.width / rect.width;
+      const scaleY = canvas.height / rect.height;
+      return Array.from(e.changedTouches).map(t => ({
+        id: t.identifier,
+        x: (t.clientX - rect.left) * scaleX,
+        y: (t.clientY - rect.top) * scaleY
+      }));
+    };
+    // Cancelling keeps the browser from scrolling, zooming or sending emulated mouse events
+    const handleStart = (e: TouchEvent) => { e.preventDefault(); this.press(points(e), anchor()); };
+    const handleMove = (e: TouchEvent) => { e.preventDefault(); this.move(points(e)); };
+    const handleEnd = (e: TouchEvent) => { e.preventDefault(); this.release(points(e)); };
+
+    canvas.addEventListener('touchstart', handleStart, { passive: false });
+    canvas.addEventListener('touchmove', handleMove, { passive: false });
+    canvas.addEventListener('touchend', handleEnd, { passive: false });
+    canvas.addEventListener('touchcancel', handleEnd, { passive: false });
+
+    return () => {
+      canvas.removeEventListener('touchstart', handleStart);
+      canvas.removeEventListener('touchmove', handleMove);
+      canvas.removeEventListener('touchend', handleEnd);
+      canvas.removeEventListener('touchcancel', handleEnd);
+      this.reset();
+    };
+  }
+
+  // A steering finger is down
+  get engaged(): boolean {
+    return this.steeringId !== null;
+  }
+
+  isHeld(action: TouchAction): boolean {
+    return Array.from(this.buttons.values()).includes(action);
+  }
+
+  press(touches: TouchPoint[], ship: Position) {
+    this.active = true;
+    touches.forEach(t => {
+      const button = buttonAt(t.x, t.y);
+      if (button) {
+        this.buttons.set(t.id, button.action);
+        this.pressListeners.forEach(listener => listener(button.action));
+        return;
+      }
+      if (this.steeringId !== null) return;
+
+      this.steeringId = t.id;
+      if (this.steering === 'STICK') {
+        this.stickOrigin = { x: t.x, y: t.y };
+        this.stick = { x: 0, y: 0 };
+      } else {
+        const dx = ship.x - t.x;
+        const dy = ship.y - t.y;
+        this.offset = Math.hypot(dx, dy) < DRAG_CLEARANCE ? { x: dx, y: -DRAG_CLEARANCE } : { x: dx, y: dy };
+        this.steer(t);
+      }
+    });
+  }
+
+  move(touches: TouchPoint[]) {
+    const t = touches.find(t => t.id === this.steeringId);
+    if (t) this.steer(t);
+  }
+
+  release(touches: TouchPoint[]) {
+    touches.forEach(t => {
+      this.buttons.delete(t.id);
+      if (t.id !== this.steeringId) return;
+      this.steeringId = null;
+      this.stickOrigin = null;
+      this.stick = { x: 0, y: 0 };
+    });
+  }
+
+  onPress(listener: (action: TouchAction) => void): Unsubscribe {
+    this.pressListeners.add(listener);
+    return () => { this.pressListeners.delete(listener); };
+  }
+
+  private steer(t: TouchPoint) {
+    if (this.stickOrigin) {
+      this.stick = shapeStick((t.x - this.stickOrigin.x) / STICK_RADIUS, (t.y - this.stickOrigin.y) / STICK_RADIUS, STICK_DEADZONE, 1);
+    } else {
+      this.target = { x: clamp(t.x + this.offset.x, CANVAS_WIDTH), y: clamp(t.y + this.offset.y, CANVAS_HEIGHT) };
+    }
+  }
+
+  private reset() {
+    this.steeringId = null;
+    this.stickOrigin = null;
+    this.stick = { x: 0, y: 0 };
+    this.buttons.clear();
+  }
+}
@@ -0,0 +1,183 @@
+import scriptData from './waveScripts.json';
+import { Enemy } from '../types';
+import { ArchetypeRegistry, ENEMY_ARCHETYPES, WaveScaled } from './enemies';
+import { BossRegistry, BOSSES } from './bosses';
+import { isRecord, isRecordArray, hasNumbers, fieldOf } from './guards';
+
+/**
+ * Wave scripts.
+ *
+ * A script is an ordered list of waves. Each wave releases timed spawn groups
+ * (an archetype in a formation, entering along a path), may keep a random
+ * "trickle" of spawns running using the archetypes' own spawn rules, and ends
+ * on a kill count or after surviving long enough. An optional intermission
+ * holds spawning before the next wave starts.
+ *
+ * After the last wave the script keeps replaying it with the wave number
+ * still climbing, so wave-scaled stats keep growing. The default "endless"
+ * script is a single trickle wave cleared every 20 kills, with a boss
+ * every fifth wave.
+ *
+ * A script-level `boss` turns every Nth wave into a boss fight; a single
+ * wave can also name a boss directly with the `boss` completion.
+ */
+
+export type EntryPath = NonNullable<Enemy['entryPath']>;
+export type Formation = 'single' | 'line' | 'column' | 'vee';
+
+// How long a spawned enemy follows its entry path before its archetype movement takes over
+export const ENTRY_DURATION: Record<EntryPath, number> = {
+  'straight': 1500,
+  'dive': 1000,
+  'sweep-left': 2000,
+  'sweep-right': 2000
+};
+
+export interface SpawnGroup {
+  at: number; // ms after the wave starts
+  type: string; // Archetype id
+  count: number;
+  formation: Formation;
+  anchor: number; // 0..1 along the entry edge (top for vertical paths, side for sweeps)
+  spacing?: number;
+  path?: EntryPath;
+}
+
+// Random spawns on a timer, picked by the archetypes' spawn rules
+export interface TrickleSpawner {
+  interval: WaveScaled; // ms
+  minInterval: number;
+}
+
+export type WaveCompletion =
+  | { kind: 'kills'; count: number } // Surplus kills carry into the next wave
+  | { kind: 'survive'; seconds: number }
+  | { kind: 'boss' }; // Ends when the wave's boss is destroyed
+
+export interface WaveDefinition {
+  name: string; // "{n}" is replaced with the wave number
+  groups?: SpawnGroup[];
+  trickle?: TrickleSpawner;
+  boss?: string; // Boss id, arrives after a warning at the start of the wave
+  complete: WaveCompletion;
+  intermission?: number; // ms without spawns before the next wave
+}
+
+export interface WaveScript {
+  id: string;
+  name: string;
+  waves: WaveDefinition[];
+  boss?: { every: number; wave: WaveDefinition }; // Replaces every Nth wave
+}
+
+export type WaveScriptRegistry = Record<string, WaveScript>;
+
+export const DEFAULT_WAVE_SCRIPT = 'endless';
+
+const DEFAULT_SPACING = 50;
+const PATHS = Object.keys(ENTRY_DURATION);
+const FORMATIONS = ['single', 'line', 'column', 'vee'];
+
+// Definition for a 1-based wave number; past the end the last wave repeats
+export const waveDefinition = (script: WaveScript, wave: number): WaveDefinition => {
+  if (script.boss && wave % script.boss.every === 0) return script.boss.wave;
+  return script.waves[Math.min(wave, script.waves.length) - 1];
+};
+
+export const waveName = (script: WaveScript, wave: number) =>
+  waveDefinition(script, wave).name.replace('{n}', String(wave));
+
+// Member offsets relative to the anchor: `cross` runs along the entry edge, `along` trails behind the leader
+export const formationOffsets = (group: SpawnGroup): { cross: number; along: number }[] => {
+  const spacing = group.spacing ?? DEFAULT_SPACING;
+  const count = group.formation === 'single' ? 1 : group.count;
+  const offsets: { cross: number; along: number }[] = [];
+  for (let i = 0; i < count; i++) {
+    switch (group.formation) {
+      case 'line':
+        offsets.push({ cross: (i - (count - 1) / 2) * spacing, along: 0 });
+        break;
+      case 'column':
+        offsets.push({ cross: 0, along: i * spacing });
+        break;
+      case 'vee': {
+        // Leader at the tip, wingmen alternate sides
+        const rank = Math.ceil(i / 2);
+        const side = i % 2 === 1 ? -1 : 1;
+        offsets.push({ cross: side * rank * spacing, along: rank * spacing * 0.6 });
+        break;
+      }
+      default:
+        offsets.push({ cross: 0, along: 0 });
+    }
+  }
+  return offsets;
+};
+
+const fail: (id: string, message: string) => never = (id, message) => {
+  throw new Error(`Wave script "${id}": ${message}`);
+};
+
+// Validates raw JSON into a registry; group types and bosses must exist in their registries
+export const loadWaveScripts = (
+  data: unknown,
+  archetypes: ArchetypeRegistry = ENEMY_ARCHETYPES,
+  bosses: BossRegistry = BOSSES
+): WaveScriptRegistry => {
+  if (!isRecord(data)) throw new Error('Wave scripts must be an object keyed by id');
+
+  const registry: WaveScriptRegistry = {};
+  Object.entries(data).forEach(([id, raw]) => {
+    if (!isRecord(raw) || !isRecordArray(raw.waves) || raw.waves.length === 0) fail(id, 'waves must be a non-empty array');
+    const waves = raw.waves;
+    waves.forEach((wave, i) => {
+      const where = `wave ${i + 1}`;
+      if (typeof wave.name !== 'string') fail(id, `${where} needs a name`);
+      const complete = wave.complete;
+      if (!isRecord(complete) || !((complete.kind === 'kills' && Number(complete.count) > 0) ||
+          (complete.kind === 'survive' && Number(complete.seconds) > 0) || (complete.kind === 'boss' && wave.boss))) {
+        fail(id, `${where} needs a kills, survive or boss completion`);
+      }
+      if (wave.boss && !bosses[wave.boss as string]) fail(id, `${where} has unknown boss "${wave.boss}"`);
+      if (!wave.groups && !wave.trickle && !wave.boss) fail(id, `${where} never spawns anything`);
+      if (wave.trickle && (!hasNumbers(wave.trickle, 'minInterval') || typeof fieldOf(wave.trickle.interval, 'base') !== 'number')) {
+        fail(id, `${where} trickle needs interval.base and minInterval`);
+      }
+      const groups = wave.groups ?? [];
+      if (!isRecordArray(groups)) fail(id, `${where} groups must be an array`);
+      groups.forEach(group => {
+        if (!archetypes[group.type as string]) fail(id, `${where} spawns unknown archetype "${group.type}"`);
+        if (!FORMATIONS.includes(group.formation as string)) fail(id, `${where} has unknown formation "${group.formation}"`);
+        if (group.path && !PATHS.includes(group.path as string)) fail(id, `${where} has unknown entry path "${group.path}"`);
+        if (!hasNumbers(group, 'at', 'count', 'anchor')) fail(id, `${where} groups need at, count and anchor`);
+      });
+    });
+
+    let boss: WaveScript['boss'];
+    if (raw.boss) {
+      const definition = bosses[fieldOf(raw.boss, 'id') as string];
+      if (!definition) fail(id, `unknown boss "${fieldOf(raw.boss, 'id')}"`);
+      if (!hasNumbers(raw.boss, 'every') || !(raw.boss.every > 0)) fail(id, 'boss.every must be positive');
+      const { every, intermission } = raw.boss;
+      if (intermission !== undefined && typeof intermission !== 'number') fail(id, 'boss.intermission must be a number');
+      boss = {
+        every,
+        wave: { name: definition.name, boss: definition.id, complete: { kind: 'boss' }, intermission: intermission as number | undefined }
+      };
+    }
+
+    registry[id] = {
+      id,
+      name: typeof raw.name === 'string' && raw.name ? raw.name : id.toUpperCase(),
+      boss,
+      // Groups are released in time order
+      waves: (waves as unknown as WaveDefinition[]).map(wave => ({
+        ...wave,
+        groups: wave.groups && [...wave.groups].sort((a, b) => a.at - b.at)
+      }))
+    };
+  });
+  return registry;
+};
+
+export const WAVE_SCRIPTS: WaveScriptRegistry = loadWaveScripts(scriptData);
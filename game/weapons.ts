@@ -0,0 +1,59 @@
+import { SecondaryType } from '../types';
+import weaponData from './weapons.json';
+
+/**
+ * Player weapon definitions.
+ *
+ * Primary weapons are indexed by weapon level and fire automatically. The
+ * secondary slot holds one limited-ammo weapon fired with its own key:
+ * `volley` launches projectiles like a primary, `bomb` damages everything on
+ * screen and wipes hostile fire, and `beam` charges while the key is held and
+ * fires a piercing shot on release, scaled by how long it charged.
+ */
+
+export interface WeaponProjectile {
+  width: number;
+  height: number;
+  color: string;
+  damage: number;
+  pierce?: number; // Extra enemies a round passes through
+  homing?: boolean; // Steers toward the nearest enemy
+}
+
+// Muzzle offset from the ship and launch velocity
+export interface WeaponShot {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+}
+
+export interface PrimaryWeapon {
+  name: string;
+  fireRate: number; // ms between volleys
+  projectile: WeaponProjectile;
+  shots: WeaponShot[];
+}
+
+interface SecondaryBase {
+  name: string;
+  ammo: number; // Full load
+  cooldown: number; // ms between uses
+}
+
+export type SecondaryWeapon =
+  | SecondaryBase & { kind: 'volley'; projectile: WeaponProjectile; shots: WeaponShot[] }
+  | SecondaryBase & { kind: 'bomb'; damage: number }
+  | SecondaryBase & { kind: 'beam'; chargeMs: number; minCharge: number; projectile: WeaponProjectile; shots: WeaponShot[] };
+
+export const PRIMARY_WEAPONS: PrimaryWeapon[] = weaponData.primary;
+export const SECONDARY_WEAPONS = weaponData.secondary as Record<SecondaryType, SecondaryWeapon>;
+export const SECONDARY_TYPES = Object.keys(SECONDARY_WEAPONS) as SecondaryType[];
+
+export const MAX_WEAPON_LEVEL = PRIMARY_WEAPONS.length;
+
+// Loadout every run starts with
+export const STARTING_SECONDARY: SecondaryType = 'MISSILES';
+
+export const primaryWeapon = (level: number): PrimaryWeapon =>
+  PRIMARY_WEAPONS[Math.max(1, Math.min(level, MAX_WEAPON_LEVEL)) - 1];
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { CommandContext, createCommandProvider, withFallback } from "./commandProvider";
+import { createScriptedProvider } from "./mockProvider";
+import { createOfflineProvider } from "./offlineProvider";
+
+// Gemini itself is never reached; each test decides how it behaves
+vi.mock("./geminiService", () => ({ createGeminiProvider: vi.fn() }));
+import { createGeminiProvider } from "./geminiService";
+
+const CONTEXT: CommandContext = { callsign: 'ACE', mission: 'endless', score: 1200, wave: 3 };
+
+describe('createCommandProvider', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('goes offline without an API key', () => {
+    vi.stubEnv('API_KEY', '');
+    const provider = createCommandProvider('gemini');
+    expect(provider.id).toBe('offline');
+    expect(createGeminiProvider).not.toHaveBeenCalled();
+  });
+
+  it('falls back to offline when Gemini rejects', async () => {
+    vi.stubEnv('API_KEY', 'test-key');
+    const gemini = createScriptedProvider({ updates: [new Error('503 Service Unavailable')] });
+    vi.mocked(createGeminiProvider).mockReturnValue(gemini);
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+
+    const provider = createCommandProvider('gemini');
+    const reply = await provider.generateTacticalUpdate('WAVE_CLEARED', CONTEXT);
+    expect(createGeminiProvider).toHaveBeenCalledWith('test-key');
+    expect(gemini.calls).toEqual([{ method: 'updates', event: 'WAVE_CLEARED' }]);
+    expect(reply).toBe(await createOfflineProvider(() => 0).generateTacticalUpdate('WAVE_CLEARED', CONTEXT));
+  });
+
+  it('uses the scripted provider when selected', async () => {
+    const provider = createCommandProvider('mock');
+    expect(provider.id).toBe('mock');
+    expect(await provider.generateBriefing(CONTEXT)).toBe('Scripted briefing.');
+  });
+});
+
+describe('withFallback', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('answers from the primary while it works', async () => {
+    const primary = createScriptedProvider({ updates: ['Primary update.'] });
+    const fallback = createScriptedProvider({ updates: ['Fallback update.'] });
+    const provider = withFallback(primary, fallback);
+
+    expect(await provider.generateTacticalUpdate('WAVE_CLEARED', CONTEXT)).toBe('Primary update.');
+    expect(fallback.calls).toEqual([]);
+  });
+
+  it('answers from the fallback when the primary throws', async () => {
+    const primary = createScriptedProvider({ briefings: [new Error('Network down')], updates: ['Primary update.', new Error('Quota exceeded')] });
+    const offline = createOfflineProvider(() => 0);
+    const provider = withFallback(primary, offline);
+
+    expect(await provider.generateBriefing(CONTEXT)).toBe(await offline.generateBriefing(CONTEXT));
+    expect(await provider.generateTacticalUpdate('WAVE_CLEARED', CONTEXT)).toBe('Primary update.');
+    expect(await provider.generateTacticalUpdate('WAVE_CLEARED', CONTEXT)).toBe(await offline.generateTacticalUpdate('WAVE_CLEARED', CONTEXT));
+    expect(primary.calls.map(call => call.method)).toEqual(['briefings', 'updates', 'updates']);
+  });
+});
@@ -0,0 +1,67 @@
+import { GameStats } from "../types";
+import { PerformanceReport } from "../game/rank";
+import { createGeminiProvider } from "./geminiService";
+import { createOfflineProvider } from "./offlineProvider";
+import { createScriptedProvider } from "./mockProvider";
+
+/**
+ * Mission Command commentary.
+ *
+ * The app talks to a `CommandProvider` and never to a model directly.
+ * Providers reject when they cannot answer; `createCommandProvider` wraps the
+ * selected one so any failure is answered by the offline phrase banks
+ * instead, and picks offline outright when no API key is configured.
+ */
+
+export type CommandProviderId = 'gemini' | 'offline' | 'mock';
+
+// Display names, in settings order
+export const COMMAND_PROVIDERS: Record<CommandProviderId, string> = {
+  gemini: 'GEMINI AI',
+  offline: 'OFFLINE',
+  mock: 'SCRIPTED'
+};
+
+// What Command knows about the sortie when it speaks
+export interface CommandContext {
+  callsign: string;
+  mission: string; // Wave script id
+  score: number;
+  wave: number;
+  repeats?: number; // Times the event fired in the burst being commented on
+}
+
+export interface CommandProvider {
+  readonly id: string;
+  generateBriefing(context: CommandContext): Promise<string>;
+  generateTacticalUpdate(event: string, context: CommandContext): Promise<string>; // Simulation event name
+  generateDebrief(stats: GameStats, report: PerformanceReport, context: CommandContext): Promise<string>; // Flavour text around the report's rank
+}
+
+// Answers from `fallback` whenever `primary` rejects
+export const withFallback = (primary: CommandProvider, fallback: CommandProvider): CommandProvider => {
+  const attempt = async <T,>(call: (provider: CommandProvider) => Promise<T>): Promise<T> => {
+    try {
+      return await call(primary);
+    } catch (error) {
+      console.error(`Command provider "${primary.id}" failed, using "${fallback.id}"`, error);
+      return call(fallback);
+    }
+  };
+
+  return {
+    id: primary.id,
+    generateBriefing: context => attempt(p => p.generateBriefing(context)),
+    generateTacticalUpdate: (event, context) => attempt(p => p.generateTacticalUpdate(event, context)),
+    generateDebrief: (stats, report, context) => attempt(p => p.generateDebrief(stats, report, context))
+  };
+};
+
+export const createCommandProvider = (id: CommandProviderId): CommandProvider => {
+  const offline = createOfflineProvider();
+  if (id === 'mock') return createScriptedProvider();
+  if (id === 'gemini' && process.env.API_KEY) {
+    return withFallback(createGeminiProvider(process.env.API_KEY), offline);
+  }
+  return offline;
+};
@@ -0,0 +1,238 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { CommentaryScheduler, CommentaryRule, CommentarySchedulerOptions, COMMENTARY_RULES } from "./commentaryScheduler";
+import { createScriptedProvider, ScriptedProvider } from "./mockProvider";
+import phraseData from "./commandPhrases.json";
+import { GameEvent } from "../game/events";
+import { ENEMY_ARCHETYPES } from "../game/enemies";
+import { BOSSES } from "../game/bosses";
+
+const RULES: Record<string, CommentaryRule> = {
+  WAVE_CLEARED: { priority: 'normal', cooldownMs: 0 },
+  BOSS_DEFEATED: { priority: 'critical', cooldownMs: 0 }
+};
+
+const WAVE_STARTED: GameEvent = { type: 'WAVE_STARTED', wave: 2, name: '2' };
+const WAVE_CLEARED: GameEvent = { type: 'WAVE_CLEARED', wave: 1, name: '1' };
+const BOSS_DEFEATED: GameEvent = { type: 'BOSS_DEFEATED', boss: 'dreadnought' };
+const HULL_HIT: GameEvent = { type: 'DAMAGE_TAKEN', source: 'PROJECTILE', attacker: 'drone', amount: 10, hullDamage: 10, hull: 60, shield: 0 };
+
+// Calls for which `hung` holds never answer, like a stalled network request; every call is still logged
+const stall = (provider: ScriptedProvider, hung: (event: string) => boolean) => {
+  const answer = provider.generateTacticalUpdate;
+  provider.generateTacticalUpdate = (event, context) => {
+    const reply = answer(event, context);
+    return hung(event) ? new Promise<string>(() => {}) : reply;
+  };
+};
+
+// Calls answer after `ms` of fake time
+const slow = (provider: ScriptedProvider, ms: number) => {
+  const answer = provider.generateTacticalUpdate;
+  provider.generateTacticalUpdate = (event, context) => {
+    const reply = answer(event, context);
+    return new Promise<string>(resolve => setTimeout(() => resolve(reply), ms));
+  };
+};
+
+// Scheduler on the fake clock; `sent` lists the cues handed to the provider, in order
+const schedule = (provider: ScriptedProvider, options: Partial<CommentarySchedulerOptions> = {}) => {
+  const messages: string[] = [];
+  const scheduler = new CommentaryScheduler(provider, {
+    getContext: () => ({ callsign: 'ACE', mission: 'endless', score: 0, wave: 1 }),
+    onMessage: message => messages.push(message),
+    rules: RULES,
+    now: () => Date.now(),
+    ...options
+  });
+  const sent = () => provider.calls.map(call => call.event);
+  return { scheduler, messages, sent };
+};
+
+describe('CommentaryScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('sends the most urgent waiting request first', async () => {
+    const provider = createScriptedProvider();
+    const { scheduler, sent } = schedule(provider, {
+      rules: {
+        WAVE_STARTED: { priority: 'low', cooldownMs: 0 },
+        WAVE_CLEARED: { priority: 'normal', cooldownMs: 0 },
+        HULL_DAMAGE: { priority: 'high', cooldownMs: 0 },
+        BOSS_DEFEATED: { priority: 'critical', cooldownMs: 0 }
+      },
+      maxInFlight: 1
+    });
+
+    scheduler.notify(WAVE_STARTED); // Takes the only slot
+    scheduler.notify(WAVE_CLEARED);
+    scheduler.notify(HULL_HIT);
+    scheduler.notify(BOSS_DEFEATED);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(sent()).toEqual(['WAVE_STARTED', 'BOSS_DEFEATED', 'HULL_DAMAGE', 'WAVE_CLEARED']);
+  });
+
+  it('keeps an event quiet for its cooldown after it spoke', async () => {
+    const provider = createScriptedProvider();
+    const { scheduler, messages } = schedule(provider, { rules: { WAVE_CLEARED: { priority: 'normal', cooldownMs: 5000 } } });
+
+    scheduler.notify(WAVE_CLEARED);
+    await vi.advanceTimersByTimeAsync(1000);
+    scheduler.notify(WAVE_CLEARED);
+    await vi.advanceTimersByTimeAsync(3999);
+    scheduler.notify(WAVE_CLEARED);
+    expect(provider.calls).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    scheduler.notify(WAVE_CLEARED);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(messages).toEqual(['Scripted update: WAVE_CLEARED.', 'Scripted update: WAVE_CLEARED.']);
+  });
+
+  it('folds a burst of repeats into one request', async () => {
+    const provider = createScriptedProvider();
+    const repeats: (number | undefined)[] = [];
+    const answer = provider.generateTacticalUpdate;
+    provider.generateTacticalUpdate = (event, context) => {
+      repeats.push(context.repeats);
+      return answer(event, context);
+    };
+    const { scheduler, messages } = schedule(provider, {
+      rules: { HULL_DAMAGE: { priority: 'high', cooldownMs: 10000, coalesceMs: 1500 } }
+    });
+
+    // Five hull hits inside the window
+    for (let i = 0; i < 5; i++) {
+      scheduler.notify(HULL_HIT);
+      await vi.advanceTimersByTimeAsync(200);
+    }
+    expect(provider.calls).toHaveLength(0);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(repeats).toEqual([5]);
+    expect(messages).toEqual(['Scripted update: HULL_DAMAGE.']);
+  });
+
+  it('drops a request still waiting after maxWaitMs', async () => {
+    const provider = createScriptedProvider();
+    stall(provider, event => event === 'BOSS_DEFEATED');
+    const { scheduler, messages, sent } = schedule(provider, {
+      rules: {
+        BOSS_DEFEATED: { priority: 'critical', cooldownMs: 0 },
+        WAVE_CLEARED: { priority: 'normal', cooldownMs: 0, maxWaitMs: 3000 },
+        HULL_DAMAGE: { priority: 'high', cooldownMs: 0 }
+      },
+      maxInFlight: 1,
+      timeoutMs: 5000
+    });
+
+    scheduler.notify(BOSS_DEFEATED); // Holds the only slot until it times out
+    scheduler.notify(WAVE_CLEARED);
+    scheduler.notify(HULL_HIT);
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(sent()).toEqual(['BOSS_DEFEATED', 'HULL_DAMAGE']);
+    expect(messages).toEqual(['Scripted update: HULL_DAMAGE.']);
+  });
+
+  it('runs at most maxInFlight calls at once and delivers in send order', async () => {
+    const provider = createScriptedProvider();
+    slow(provider, 1000);
+    const { scheduler, messages, sent } = schedule(provider, {
+      rules: {
+        WAVE_STARTED: { priority: 'normal', cooldownMs: 0 },
+        WAVE_CLEARED: { priority: 'normal', cooldownMs: 0 },
+        BOSS_DEFEATED: { priority: 'normal', cooldownMs: 0 }
+      },
+      maxInFlight: 2
+    });
+
+    scheduler.notify(WAVE_STARTED);
+    scheduler.notify(WAVE_CLEARED);
+    scheduler.notify(BOSS_DEFEATED);
+    await vi.advanceTimersByTimeAsync(999);
+    expect(sent()).toEqual(['WAVE_STARTED', 'WAVE_CLEARED']);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(sent()).toEqual(['WAVE_STARTED', 'WAVE_CLEARED', 'BOSS_DEFEATED']);
+    expect(messages).toEqual(['Scripted update: WAVE_STARTED.', 'Scripted update: WAVE_CLEARED.']);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(messages).toHaveLength(3);
+  });
+
+  it('drops waiting requests and late replies when cancelled at game over', async () => {
+    const provider = createScriptedProvider();
+    slow(provider, 1000);
+    const { scheduler, messages } = schedule(provider, {
+      rules: {
+        WAVE_CLEARED: { priority: 'normal', cooldownMs: 60000 },
+        HULL_DAMAGE: { priority: 'high', cooldownMs: 0, coalesceMs: 1500 }
+      }
+    });
+
+    scheduler.notify(WAVE_CLEARED); // In flight
+    scheduler.notify(HULL_HIT); // Coalescing
+    await vi.advanceTimersByTimeAsync(500);
+    scheduler.cancel();
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(provider.calls).toHaveLength(1);
+    expect(messages).toEqual([]);
+
+    // Cooldowns start over with the next run
+    scheduler.notify(WAVE_CLEARED);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(messages).toEqual(['Scripted update: WAVE_CLEARED.']);
+  });
+
+  it('gives up on a hung call so later replies still arrive', async () => {
+    const provider = createScriptedProvider();
+    stall(provider, event => event === 'WAVE_CLEARED');
+    const { scheduler, messages } = schedule(provider, { timeoutMs: 1000 });
+
+    scheduler.notify(WAVE_CLEARED);
+    scheduler.notify(BOSS_DEFEATED);
+    await vi.advanceTimersByTimeAsync(500);
+    expect(messages).toEqual([]); // Held behind the earlier request
+
+    await vi.advanceTimersByTimeAsync(600);
+    expect(messages).toEqual(['Scripted update: BOSS_DEFEATED.']);
+  });
+
+  it('frees the slot of a timed-out call', async () => {
+    const provider = createScriptedProvider();
+    let calls = 0;
+    stall(provider, () => calls++ === 0);
+    const { scheduler, messages } = schedule(provider, { maxInFlight: 1, timeoutMs: 1000 });
+
+    scheduler.notify(WAVE_CLEARED);
+    scheduler.notify(BOSS_DEFEATED); // Waits for the only slot
+    await vi.advanceTimersByTimeAsync(1100);
+    expect(messages).toEqual(['Scripted update: BOSS_DEFEATED.']);
+  });
+});
+
+describe('COMMENTARY_RULES', () => {
+  // Spawn alerts and boss phases come from the content files; the rest are event types
+  const cues = [
+    ...Object.values(ENEMY_ARCHETYPES).flatMap(archetype => archetype.spawn?.event || []),
+    ...Object.values(BOSSES).flatMap(boss => boss.phases.map(phase => phase.event)),
+    'HULL_DAMAGE', 'WAVE_CLEARED', 'BOSS_WARNING', 'BOSS_CORE_EXPOSED', 'BOSS_DEFEATED'
+  ];
+
+  it('cover every cue the simulation raises, each with an offline phrase bank', () => {
+    expect(cues).toContain('ENEMY_SPAWN_MINELAYER');
+    const tactical: Record<string, Record<string, string[]>> = phraseData.tactical;
+    cues.forEach(cue => {
+      expect(COMMENTARY_RULES, cue).toHaveProperty([cue]);
+      expect(Object.values(tactical[cue] || {}).flat().length, cue).toBeGreaterThanOrEqual(6);
+    });
+    expect(Object.keys(COMMENTARY_RULES).sort()).toEqual([...new Set(cues)].sort());
+  });
+});
@@ -0,0 +1,186 @@
+import { MissionLog } from "../types";
+import { GameEvent } from "../game/events";
+import { CommandContext, CommandProvider } from "./commandProvider";
+
+/**
+ * Decides which simulation events get AI commentary, and when.
+ *
+ * Each event is reduced to a cue (see `commentaryCue`); rules, phrase banks
+ * and prompts are keyed by cue. Cues without a rule are ignored. Repeats of an event inside its
+ * `coalesceMs` window fold into one request (five hull hits become one
+ * "taking heavy fire" message), an event that spoke recently stays quiet
+ * for `cooldownMs`, and requests still waiting after `maxWaitMs` are dropped
+ * as stale. At most `maxInFlight` provider calls run at once; the most
+ * urgent waiting request goes next. Replies are delivered in the order the
+ * requests were sent, with the context read at send time; a call with no
+ * reply after `timeoutMs` is given up so it cannot hold back the ones behind
+ * it. `cancel` drops everything, including replies still in flight.
+ */
+
+export type CommentaryPriority = MissionLog['priority'];
+
+export interface CommentaryRule {
+  priority: CommentaryPriority;
+  cooldownMs: number; // Quiet time after this event is sent
+  coalesceMs?: number; // Wait this long for repeats before sending
+  maxWaitMs?: number; // Drop if not sent by then
+}
+
+export const COMMENTARY_RULES: Record<string, CommentaryRule> = {
+  ENEMY_SPAWN_GUARDIAN: { priority: 'high', cooldownMs: 20000, maxWaitMs: 4000 },
+  ENEMY_SPAWN_MINELAYER: { priority: 'normal', cooldownMs: 20000, maxWaitMs: 4000 },
+  HULL_DAMAGE: { priority: 'high', cooldownMs: 10000, coalesceMs: 1500, maxWaitMs: 3000 },
+  WAVE_CLEARED: { priority: 'normal', cooldownMs: 5000, maxWaitMs: 6000 },
+  BOSS_WARNING: { priority: 'critical', cooldownMs: 0, maxWaitMs: 3000 },
+  BOSS_PHASE_ASSAULT: { priority: 'critical', cooldownMs: 0 },
+  BOSS_CORE_EXPOSED: { priority: 'critical', cooldownMs: 0, maxWaitMs: 3000 },
+  BOSS_PHASE_BARRAGE: { priority: 'critical', cooldownMs: 0 },
+  BOSS_PHASE_LAST_STAND: { priority: 'critical', cooldownMs: 0 },
+  BOSS_DEFEATED: { priority: 'critical', cooldownMs: 0 }
+};
+
+// Boss phases and spawn alerts carry their own cue; fatal hits get none
+export const commentaryCue = (event: GameEvent): string | null => {
+  switch (event.type) {
+    case 'ENEMY_SPAWNED': return event.alert || null;
+    case 'DAMAGE_TAKEN': return event.hull > 0 ? 'HULL_DAMAGE' : null;
+    case 'BOSS_PHASE': return event.cue;
+    default: return event.type;
+  }
+};
+
+const PRIORITY_ORDER: CommentaryPriority[] = ['critical', 'high', 'normal', 'low'];
+
+export interface CommentarySchedulerOptions {
+  getContext: () => CommandContext; // Read when a request is sent, not when the event fires
+  onMessage: (message: string, priority: CommentaryPriority, event: string) => void;
+  rules?: Record<string, CommentaryRule>;
+  maxInFlight?: number;
+  timeoutMs?: number; // Give up on a provider call after this long
+  now?: () => number;
+}
+
+interface PendingRequest {
+  event: string;
+  rule: CommentaryRule;
+  repeats: number;
+  raisedAt: number;
+  readyAt: number;
+}
+
+interface SentRequest {
+  event: string;
+  priority: CommentaryPriority;
+  reply: string | null; // Null until the provider answers
+  settled: boolean;
+}
+
+export class CommentaryScheduler {
+  private pending: PendingRequest[] = [];
+  private sent: SentRequest[] = []; // In send order, until delivered
+  private inFlight = 0;
+  private lastSentAt: Record<string, number> = {};
+  private generation = 0; // Bumped by `cancel` so late replies are discarded
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  private rules: Record<string, CommentaryRule>;
+  private maxInFlight: number;
+  private timeoutMs: number;
+  private now: () => number;
+
+  constructor(private provider: CommandProvider, private options: CommentarySchedulerOptions) {
+    this.rules = options.rules || COMMENTARY_RULES;
+    this.maxInFlight = options.maxInFlight ?? 2;
+    this.timeoutMs = options.timeoutMs ?? 8000;
+    this.now = options.now || (() => performance.now());
+  }
+
+  notify(gameEvent: GameEvent) {
+    const event = commentaryCue(gameEvent);
+    const rule = event ? this.rules[event] : undefined;
+    if (!event || !rule) return;
+
+    const now = this.now();
+    const waiting = this.pending.find(request => request.event === event);
+    if (waiting) {
+      waiting.repeats++;
+      return;
+    }
+    if (now - (this.lastSentAt[event] ?? -Infinity) < rule.cooldownMs) return;
+
+    this.pending.push({ event, rule, repeats: 1, raisedAt: now, readyAt: now + (rule.coalesceMs || 0) });
+    this.pump();
+  }
+
+  // Drops waiting requests and ignores replies still in flight
+  cancel() {
+    this.generation++;
+    this.pending = [];
+    this.sent = [];
+    this.inFlight = 0;
+    this.lastSentAt = {};
+    if (this.timer !== null) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  private pump() {
+    const now = this.now();
+    this.pending = this.pending.filter(request => request.rule.maxWaitMs === undefined || now - request.raisedAt <= request.rule.maxWaitMs);
+
+    while (this.inFlight < this.maxInFlight) {
+      const next = this.nextReady(now);
+      if (!next) break;
+      this.pending.splice(this.pending.indexOf(next), 1);
+      this.send(next, now);
+    }
+
+    // Wake up when the next coalescing window closes
+    if (this.timer !== null) clearTimeout(this.timer);
+    this.timer = null;
+    const upcoming = this.pending.filter(request => request.readyAt > now);
+    if (upcoming.length) {
+      const wakeAt = Math.min(...upcoming.map(request => request.readyAt));
+      this.timer = setTimeout(() => this.pump(), wakeAt - now);
+    }
+  }
+
+  // Most urgent first, then oldest
+  private nextReady(now: number): PendingRequest | undefined {
+    return this.pending
+      .filter(request => request.readyAt <= now)
+      .sort((a, b) => PRIORITY_ORDER.indexOf(a.rule.priority) - PRIORITY_ORDER.indexOf(b.rule.priority) || a.raisedAt - b.raisedAt)[0];
+  }
+
+  private send(request: PendingRequest, now: number) {
+    const generation = this.generation;
+    const sent: SentRequest = { event: request.event, priority: request.rule.priority, reply: null, settled: false };
+    this.sent.push(sent);
+    this.inFlight++;
+    this.lastSentAt[request.event] = now;
+
+    const context = { ...this.options.getContext(), repeats: request.repeats };
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    const timedOut = new Promise<never>((_, reject) => {
+      timeout = setTimeout(() => reject(new Error(`No reply to ${request.event} within ${this.timeoutMs}ms`)), this.timeoutMs);
+    });
+    Promise.race([this.provider.generateTacticalUpdate(request.event, context), timedOut])
+      .then(reply => { sent.reply = reply; })
+      .catch(error => console.error("Commentary failed", error))
+      .finally(() => {
+        clearTimeout(timeout);
+        if (generation !== this.generation) return;
+        sent.settled = true;
+        this.inFlight--;
+        this.deliver();
+        this.pump();
+      });
+  }
+
+  // Hands out settled replies in send order, holding any that overtook an earlier request
+  private deliver() {
+    while (this.sent.length && this.sent[0].settled) {
+      const { reply, priority, event } = this.sent.shift()!;
+      if (reply) this.options.onMessage(reply, priority, event);
+    }
+  }
+}
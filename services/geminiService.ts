@@ -1,8 +1,9 @@
-import { GoogleGenAI, Type } from "@google/genai";
+import { GoogleGenAI } from "@google/genai";
 import { GameStats } from "../types";
+import { PerformanceReport, GRADE_CATEGORIES } from "../game/rank";
+import { CommandContext, CommandProvider } from "./commandProvider";
 
-// Initialize Gemini Client
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const MODEL = 'gemini-2.5-flash';
 
 const SYSTEM_INSTRUCTION = `
 You are "AstroWing Command", a battle-hardened, tactical AI flight commander for a futuristic fighter jet pilot.
@@ -12,81 +13,61 @@ Keep responses under 25 words.
 Respond in English.
 `;
 
-export const generateBriefing = async (): Promise<string> => {
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: "Generate a mission start briefing. The pilot is launching into a hostile sector filled with enemy drones. Brief, urgent command.",
-      config: {
-        systemInstruction: SYSTEM_INSTRUCTION,
-        temperature: 0.8,
-      }
-    });
-    return response.text || "Systems online. Engage hostiles at will.";
-  } catch (error) {
-    console.error("Gemini briefing failed", error);
-    return "Comms link unstable. Proceed with caution.";
-  }
+// Plain-language situation for each simulation event Command comments on
+const EVENT_DESCRIPTIONS: Record<string, string> = {
+  ENEMY_SPAWN_GUARDIAN: 'Guardian Class Enemy detected',
+  ENEMY_SPAWN_MINELAYER: 'Minelayer detected, seeding the sector with mines',
+  HULL_DAMAGE: 'Hull Critical',
+  WAVE_CLEARED: 'Wave Cleared',
+  BOSS_WARNING: 'Capital ship inbound',
+  BOSS_PHASE_ASSAULT: 'Boss engaged, shield generators protecting its core',
+  BOSS_CORE_EXPOSED: 'Boss shield generators destroyed, core exposed',
+  BOSS_PHASE_BARRAGE: 'Boss enraged, firing homing missiles',
+  BOSS_PHASE_LAST_STAND: 'Boss on its last legs, firing in all directions',
+  BOSS_DEFEATED: 'Boss destroyed'
 };
 
-export const generateTacticalUpdate = async (event: string, score: number): Promise<string> => {
-  try {
+// Every call rejects on failure so the caller can fall back
+export const createGeminiProvider = (apiKey: string): CommandProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  const generate = async (contents: string, temperature: number): Promise<string> => {
     const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: `Event: ${event}. Current Score: ${score}. Give a quick tactical comment.`,
+      model: MODEL,
+      contents,
       config: {
         systemInstruction: SYSTEM_INSTRUCTION,
-        temperature: 0.9,
+        temperature,
       }
     });
-    return response.text || "Data received. Keep fighting.";
-  } catch (error) {
-    return "Signal interference detected.";
-  }
-};
+    if (!response.text) throw new Error("No response");
+    return response.text;
+  };
 
-export const generateDebrief = async (stats: GameStats): Promise<{ rank: string; message: string }> => {
-  try {
-    const prompt = `
-      Mission Report:
-      - Score: ${stats.score}
-      - Wave Reached: ${stats.wave}
-      - Enemies Destroyed: ${stats.enemiesDestroyed}
-      - Survival Time: ${stats.timeSurvived}s
-      - Accuracy: ${Math.round((stats.shotsHit / (stats.shotsFired || 1)) * 100)}%
+  return {
+    id: 'gemini',
 
-      Provide a Mission Debrief.
-    `;
+    generateBriefing: (context: CommandContext) =>
+      generate(`Generate a mission start briefing for pilot ${context.callsign}. The pilot is launching into a hostile sector filled with enemy drones. Brief, urgent command.`, 0.8),
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: {
-        systemInstruction: SYSTEM_INSTRUCTION,
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            rank: {
-              type: Type.STRING,
-              description: "One word rank (e.g. ROOKIE, ACE, LEGEND, ELITE, DISGRACE)",
-            },
-            message: {
-              type: Type.STRING,
-              description: "A 1-2 sentence evaluation of performance.",
-            },
-          },
-          propertyOrdering: ["rank", "message"],
-        },
-      }
-    });
-    
-    const text = response.text;
-    if (!text) throw new Error("No response");
-    
-    return JSON.parse(text);
-  } catch (error) {
-    console.error("Debrief failed", error);
-    return { rank: "UNKNOWN", message: "Flight data corrupted. Return to base." };
-  }
-};
\ No newline at end of file
+    generateTacticalUpdate: (event: string, context: CommandContext) =>
+      generate(`Event: ${EVENT_DESCRIPTIONS[event] || event}${(context.repeats || 1) > 1 ? ` (x${context.repeats} in quick succession)` : ''}. Current Score: ${context.score}. Wave: ${context.wave}. Give a quick tactical comment.`, 0.9),
+
+    generateDebrief: (stats: GameStats, report: PerformanceReport, context: CommandContext) => {
+      const grades = GRADE_CATEGORIES.map(category => `${category} ${report.grades[category].grade}`).join(', ');
+      const prompt = `
+        Mission Report for pilot ${context.callsign}:
+        - Rank (final, already decided): ${report.rank}
+        - Grades: ${grades}
+        - Highlights: ${report.highlights.join('; ') || 'none'}
+        - Score: ${stats.score}
+        - Wave Reached: ${stats.wave}
+        - Enemies Destroyed: ${stats.enemiesDestroyed}
+        - Survival Time: ${stats.timeSurvived}s
+
+        Write a 1-2 sentence Mission Debrief consistent with that rank. Do not award a different rank.
+      `;
+      return generate(prompt, 0.8);
+    }
+  };
+};
@@ -0,0 +1,47 @@
+import { CommandProvider } from "./commandProvider";
+
+/**
+ * Scripted provider for tests and offline demos. Each method hands out its
+ * queued responses in order, repeating the last one once the queue runs dry;
+ * an `Error` in a queue rejects that call, to exercise fallbacks. Every call
+ * is logged in `calls`.
+ */
+
+export interface CommandScript {
+  briefings?: (string | Error)[];
+  updates?: (string | Error)[];
+  debriefs?: (string | Error)[];
+}
+
+export interface ScriptedProvider extends CommandProvider {
+  calls: { method: keyof CommandScript; event?: string }[];
+}
+
+export const createScriptedProvider = (script: CommandScript = {}): ScriptedProvider => {
+  const cursors = { briefings: 0, updates: 0, debriefs: 0 };
+
+  const next = async <T,>(method: keyof CommandScript, fallback: T): Promise<T> => {
+    const queue = (script[method] || []) as (T | Error)[];
+    const response = queue.length ? queue[Math.min(cursors[method]++, queue.length - 1)] : fallback;
+    if (response instanceof Error) throw response;
+    return response;
+  };
+
+  const provider: ScriptedProvider = {
+    id: 'mock',
+    calls: [],
+    generateBriefing: () => {
+      provider.calls.push({ method: 'briefings' });
+      return next('briefings', 'Scripted briefing.');
+    },
+    generateTacticalUpdate: event => {
+      provider.calls.push({ method: 'updates', event });
+      return next('updates', `Scripted update: ${event}.`);
+    },
+    generateDebrief: () => {
+      provider.calls.push({ method: 'debriefs' });
+      return next('debriefs', 'Scripted debrief.');
+    }
+  };
+  return provider;
+};
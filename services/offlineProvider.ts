@@ -0,0 +1,69 @@
+import { GameStats } from "../types";
+import { PerformanceReport, GradeCategory, GRADE_CATEGORIES } from "../game/rank";
+import { CommandContext, CommandProvider } from "./commandProvider";
+import phraseData from "./commandPhrases.json";
+
+/**
+ * Template commentary that never leaves the browser.
+ *
+ * Phrases live in `commandPhrases.json`. Briefings are keyed by mission,
+ * tactical updates by simulation event and then by context: `early` and
+ * `late` split on the wave reached, `any` always matches. Debriefs are
+ * keyed by the report's rank, then mention its top highlight and weakest
+ * category. Placeholders like `{callsign}` and `{score}` are filled from the
+ * context.
+ */
+
+type PhraseBank = Record<string, string[]>;
+
+const PHRASES = phraseData as {
+  briefing: PhraseBank;
+  tactical: Record<string, PhraseBank>;
+  acknowledge: string[]; // Events without a bank of their own
+  debrief: PhraseBank; // Keyed by rank
+  highlight: string[];
+  weakest: Record<GradeCategory, string[]>;
+};
+
+const LATE_WAVE = 5;
+
+const fill = (template: string, values: Record<string, string | number>) =>
+  template.replace(/\{(\w+)\}/g, (match, key: string) => (key in values ? String(values[key]) : match));
+
+export const createOfflineProvider = (random: () => number = Math.random): CommandProvider => {
+  const pick = (phrases: string[]) => phrases[Math.floor(random() * phrases.length)];
+
+  // First context key with phrases wins
+  const choose = (bank: PhraseBank, keys: string[]) => {
+    const key = keys.find(k => bank[k]?.length);
+    return key ? pick(bank[key]) : null;
+  };
+
+  const values = (context: CommandContext) => ({
+    callsign: context.callsign, score: context.score, wave: context.wave
+  });
+
+  return {
+    id: 'offline',
+
+    generateBriefing: async (context: CommandContext) =>
+      fill(choose(PHRASES.briefing, [context.mission, 'any'])!, values(context)),
+
+    generateTacticalUpdate: async (event: string, context: CommandContext) => {
+      const bank = PHRASES.tactical[event];
+      const phase = context.wave >= LATE_WAVE ? 'late' : 'early';
+      const phrase = (bank && choose(bank, [phase, 'any'])) || pick(PHRASES.acknowledge);
+      return fill(phrase, values(context));
+    },
+
+    generateDebrief: async (stats: GameStats, report: PerformanceReport, context: CommandContext) => {
+      const summary = { ...values(context), wave: stats.wave, score: stats.score, kills: stats.enemiesDestroyed };
+      const weakest = GRADE_CATEGORIES.reduce((low, category) => (report.grades[category].score < report.grades[low].score ? category : low));
+      return [
+        fill(choose(PHRASES.debrief, [report.rank]) || pick(PHRASES.acknowledge), summary),
+        report.highlights.length ? fill(pick(PHRASES.highlight), { highlight: report.highlights[0] }) : '',
+        report.grades[weakest].grade === 'S' ? '' : pick(PHRASES.weakest[weakest])
+      ].filter(Boolean).join(' ');
+    }
+  };
+};
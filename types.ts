@@ -3,7 +3,11 @@ export enum GameState {
   PLAYING = 'PLAYING',
   GAME_OVER = 'GAME_OVER',
   PAUSED = 'PAUSED',
-  SHOP = 'SHOP'
+  SHOP = 'SHOP',
+  REPLAY = 'REPLAY',
+  LEADERBOARD = 'LEADERBOARD',
+  CONTROLS = 'CONTROLS',
+  CALIBRATION = 'CALIBRATION'
 }
 
 export interface Position {
@@ -17,8 +21,9 @@ export interface Velocity {
 }
 
 export interface Entity {
-  id: string;
+  id: number; // Unique per run; pooled slots get a fresh id on every spawn
   pos: Position;
+  prevPos?: Position; // Position at the start of the current tick, for render interpolation
   vel: Velocity;
   width: number;
   height: number;
@@ -26,26 +31,36 @@ export interface Entity {
   active: boolean;
 }
 
+export type SecondaryType = 'MISSILES' | 'BOMB' | 'BEAM';
+
+// What a player kill is credited to
+export type PlayerWeapon = 'PRIMARY' | SecondaryType;
+
 export interface Player extends Entity {
   hp: number;
   maxHp: number;
   shield: number;
   maxShield: number;
-  fireRate: number;
   lastFired: number;
   weaponLevel: number;
+  secondary: SecondaryType | null; // See game/weapons.json
+  secondaryAmmo: number;
+  secondaryReadyAt: number; // Cooldown end
+  chargeStartedAt: number | null; // Beam charge start while the key is held
   speedMultiplier: number; // For speed powerup
   invulnerableUntil: number; // Timestamp for invulnerability end
 }
 
 export interface Enemy extends Entity {
   hp: number;
-  type: 'drone' | 'fighter' | 'boss' | 'seeker' | 'bomber' | 'minelayer' | 'guardian';
+  type: string; // Archetype id, see game/enemyArchetypes.json
   scoreValue: number;
   pattern: number; 
   lastFired?: number; // For shooting enemies
   shield?: number; // For guardian enemies
   maxShield?: number;
+  entryPath?: 'straight' | 'dive' | 'sweep-left' | 'sweep-right'; // Scripted entry, see game/waves.ts
+  entryUntil?: number; // Logic time the entry path ends
 }
 
 export interface Projectile extends Entity {
@@ -53,6 +68,11 @@ export interface Projectile extends Entity {
   owner: 'player' | 'enemy';
   tracking?: boolean; // For homing missiles
   isMine?: boolean; // For stationary mines
+  pierce?: number; // Further enemies this round can pass through
+  lastHitId?: number; // Enemy a piercing round is currently passing through
+  weapon?: PlayerWeapon; // Player rounds: the weapon that fired it
+  weaponLevel?: number; // Player rounds: primary weapon level when fired
+  firedBy?: string; // Enemy rounds: archetype id of the shooter
 }
 
 export interface Particle extends Entity {
@@ -66,16 +86,39 @@ export interface PowerUp extends Entity {
   type: 'WEAPON' | 'SHIELD' | 'SPEED';
 }
 
+// HUD view of the current boss encounter
+export interface BossStatus {
+  name: string;
+  phase: string;
+  hp: number;
+  maxHp: number;
+  shielded: boolean; // Core is immune until its shielding parts are destroyed
+  arriving: boolean; // Warning banner is up, boss not on the field yet
+}
+
+// HUD view of the secondary weapon slot
+export interface SecondaryStatus {
+  type: SecondaryType;
+  name: string;
+  ammo: number;
+  maxAmmo: number;
+}
+
 export interface GameStats {
   score: number;
   credits: number;
   wave: number;
+  waveName: string; // Display name from the wave script
   enemiesDestroyed: number;
-  accuracy: number; // percentage
-  shotsFired: number;
-  shotsHit: number;
+  accuracy: number; // percentage, shotsHit / shotsFired
+  shotsFired: number; // Rounds fired, every projectile of a volley counted
+  shotsHit: number; // Rounds that connected
   timeSurvived: number; // seconds
   weaponLevel: number;
+  creditsSpent: number; // In the armory
+  events: Record<string, number>; // Times each simulation event type was raised this run, see game/events.ts
+  boss: BossStatus | null;
+  secondary: SecondaryStatus | null;
 }
 
 export interface MissionLog {